@@ -0,0 +1,300 @@
+/**
+ * Sharp job pipeline, shared by the API routes
+ *
+ * Submit routes only store a job as queued and kick the worker route,
+ * which moves it through inferring → storing → completed and
+ * records each stage in sharp_jobs as it goes. A stage only advances
+ * while the job is still in the stage before it, so a cancelled job stays
+ * cancelled and two workers never run the same job.
+ *
+ * sharp_jobs needs a stage_started_at (timestamptz) column for progress
+ * estimates and for spotting stalled jobs.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL || process.env.SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_SERVICE_KEY;
+
+export const supabase = createClient(supabaseUrl, supabaseKey);
+
+const BUCKET = 'hon-assets';
+
+// Jobs before this model ran in one 'processing' step
+export const ACTIVE_STAGES = ['queued', 'inferring', 'storing', 'processing'];
+
+// Share of the whole job done when each stage starts, and roughly how
+// long the stage takes in seconds
+const STAGES = {
+  queued: { start: 0, end: 0.1, seconds: 5 },
+  inferring: { start: 0.1, end: 0.85, seconds: 60 },
+  storing: { start: 0.85, end: 1, seconds: 10 },
+  processing: { start: 0.1, end: 0.85, seconds: 60 },
+};
+
+// A queued job nobody picked up by then gets its worker kicked again
+const QUEUED_RETRY_SECONDS = 15;
+// The worker's maxDuration, a job in one stage for longer has been lost
+const WORKER_MAX_SECONDS = 300;
+// How long a submit waits for the worker to accept its request
+const KICK_TIMEOUT_MS = 1500;
+
+export function createRequestId() {
+  return `sharp_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+}
+
+/**
+ * Store a new job, waiting for the worker
+ */
+export async function insertJob(requestId, imageUrl) {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('sharp_jobs')
+    .insert({
+      id: requestId,
+      image_url: imageUrl,
+      status: 'queued',
+      created_at: now,
+      stage_started_at: now,
+    });
+
+  if (error) throw new Error(`Failed to store job: ${error.message}`);
+}
+
+/**
+ * Start the worker for a job. The worker runs on as its own function
+ * invocation, so only its start is waited for.
+ */
+export async function kickWorker(req, requestId) {
+  const protocol = req.headers['x-forwarded-proto'] || 'https';
+  const workerUrl = `${protocol}://${req.headers.host}/api/sharp/worker`;
+
+  try {
+    await fetch(workerUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ request_id: requestId }),
+      signal: AbortSignal.timeout(KICK_TIMEOUT_MS),
+    });
+  } catch (err) {
+    if (err.name !== 'TimeoutError') {
+      console.warn(`[Sharp] Could not kick worker for ${requestId}:`, err.message);
+    }
+  }
+}
+
+/**
+ * Status the client understands: pending until a worker has the job,
+ * processing while it runs
+ */
+export function getClientStatus(stage) {
+  if (stage === 'queued') return 'pending';
+  if (ACTIVE_STAGES.includes(stage)) return 'processing';
+  return stage;
+}
+
+/**
+ * Seconds the job has spent in its current stage
+ */
+function getStageSeconds(job) {
+  const since = new Date(job.stage_started_at || job.created_at);
+  return (Date.now() - since.getTime()) / 1000;
+}
+
+/**
+ * 0 to 1, from the stage and how long it usually takes. Stays short of
+ * the next stage however long this one runs.
+ */
+function estimateProgress(job) {
+  if (job.status === 'completed') return 1;
+  const stage = STAGES[job.status];
+  if (!stage) return null;
+
+  const share = Math.min(0.95, getStageSeconds(job) / stage.seconds);
+  return stage.start + (stage.end - stage.start) * share;
+}
+
+/**
+ * Status route fields for a job
+ */
+export function describeJob(job) {
+  const createdAt = new Date(job.created_at);
+  const elapsed = Math.round((Date.now() - createdAt.getTime()) / 1000);
+
+  return {
+    request_id: job.id,
+    status: getClientStatus(job.status),
+    stage: job.status,
+    progress: estimateProgress(job),
+    elapsed_seconds: elapsed,
+    ...(job.status === 'completed' && {
+      filename: job.filename,
+      size_bytes: job.size_bytes,
+    }),
+    ...(job.status === 'failed' && {
+      error: job.error,
+    }),
+  };
+}
+
+/**
+ * Look after a job the worker may have lost: kick the worker again for
+ * one that stays queued, and fail one stuck in a stage past the worker's
+ * time limit. Updates job to match. Resolves with the kick, if there was
+ * one, for the caller to wait on when it likes.
+ */
+export async function superviseJob(req, job) {
+  const stageSeconds = getStageSeconds(job);
+  if (job.status === 'queued' && stageSeconds > QUEUED_RETRY_SECONDS) {
+    // Restarting the clock claims the kick, so every status check and
+    // stream watching the job doesn't kick it too
+    const now = new Date();
+    const cutoff = new Date(now.getTime() - QUEUED_RETRY_SECONDS * 1000);
+    const { data, error } = await supabase
+      .from('sharp_jobs')
+      .update({ stage_started_at: now.toISOString() })
+      .eq('id', job.id)
+      .eq('status', 'queued')
+      .lt('stage_started_at', cutoff.toISOString())
+      .select('id');
+
+    if (error || data.length === 0) return { kick: null };
+    job.stage_started_at = now.toISOString();
+    return { kick: kickWorker(req, job.id) };
+  } else if (getClientStatus(job.status) === 'processing' && stageSeconds > WORKER_MAX_SECONDS) {
+    const error = `Worker timed out while ${job.status}`;
+    if (await failJob(job.id, error)) {
+      job.status = 'failed';
+      job.error = error;
+    } else {
+      // The worker moved the job on in the meantime
+      Object.assign(job, await getJob(job.id));
+    }
+  }
+  return { kick: null };
+}
+
+/**
+ * Move a job on if it is still in stage from. Resolves false when it
+ * isn't, e.g. after a cancel.
+ */
+async function advance(requestId, from, to, fields = {}) {
+  const { data, error } = await supabase
+    .from('sharp_jobs')
+    .update({ status: to, stage_started_at: new Date().toISOString(), ...fields })
+    .eq('id', requestId)
+    .eq('status', from)
+    .select('id');
+
+  if (error) throw new Error(`Failed to update job: ${error.message}`);
+  return data.length > 0;
+}
+
+/**
+ * Fail a job that is still active. Resolves false when it had finished or
+ * been cancelled already.
+ */
+export async function failJob(requestId, message) {
+  const { data, error } = await supabase
+    .from('sharp_jobs')
+    .update({ status: 'failed', error: message })
+    .eq('id', requestId)
+    .in('status', ACTIVE_STAGES)
+    .select('id');
+
+  if (error) throw new Error(`Failed to update job: ${error.message}`);
+  return data.length > 0;
+}
+
+async function getJob(requestId) {
+  const { data, error } = await supabase
+    .from('sharp_jobs')
+    .select('*')
+    .eq('id', requestId)
+    .single();
+
+  if (error) throw new Error(`Failed to read job: ${error.message}`);
+  return data;
+}
+
+/**
+ * Run a queued job to the end. Resolves false when the job wasn't queued,
+ * because another worker has it or it was cancelled.
+ */
+export async function runJob(requestId) {
+  const { data: jobs, error } = await supabase
+    .from('sharp_jobs')
+    .update({ status: 'inferring', stage_started_at: new Date().toISOString() })
+    .eq('id', requestId)
+    .eq('status', 'queued')
+    .select('*');
+
+  if (error) throw new Error(`Failed to claim job: ${error.message}`);
+  if (jobs.length === 0) return false;
+
+  try {
+    // Modal fetches the image itself. Only submit-file stores images, a
+    // URL from the open submit route is passed on as it is.
+    const imageUrl = jobs[0].image_url;
+
+    console.log(`[Sharp] Job ${requestId}: inferring`);
+    const result = await runModal(imageUrl);
+    if (!(await advance(requestId, 'inferring', 'storing'))) return true;
+
+    const filename = result.filename || 'output.ply';
+    const plyBuffer = Buffer.from(result.ply_data, 'base64');
+    const plyUrl = await upload(`splats/${requestId}/${filename}`, plyBuffer, {
+      cacheControl: '31536000',
+      contentType: 'application/octet-stream',
+    });
+
+    await advance(requestId, 'storing', 'completed', {
+      ply_url: plyUrl,
+      filename: result.filename,
+      size_bytes: result.size_bytes,
+      completed_at: new Date().toISOString(),
+    });
+    console.log(`[Sharp] Job ${requestId}: completed`);
+  } catch (err) {
+    console.error(`[Sharp] Job ${requestId} failed:`, err);
+    await failJob(requestId, err.message || 'Unknown error');
+  }
+  return true;
+}
+
+/**
+ * Upload to the assets bucket, resolving with the public URL
+ */
+export async function upload(path, data, { cacheControl = '3600', contentType }) {
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, data, { cacheControl, upsert: true, contentType });
+
+  if (error) throw new Error(`Upload failed: ${error.message}`);
+
+  const { data: urlData } = supabase.storage.from(BUCKET).getPublicUrl(path);
+  return urlData.publicUrl;
+}
+
+async function runModal(imageUrl) {
+  const tokenId = process.env.MODAL_TOKEN_ID;
+  const tokenSecret = process.env.MODAL_TOKEN_SECRET;
+  if (!tokenId || !tokenSecret) throw new Error('Modal credentials not configured');
+
+  const modalEndpoint = process.env.MODAL_SHARP_ENDPOINT ||
+    'https://dervinevolve--hon-sharp-splat-image-to-splat.modal.run';
+
+  const modalRes = await fetch(modalEndpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${tokenId}:${tokenSecret}`,
+    },
+    body: JSON.stringify({ image_url: imageUrl }),
+  });
+
+  if (!modalRes.ok) {
+    throw new Error(`Modal failed: ${await modalRes.text()}`);
+  }
+  return modalRes.json();
+}
@@ -0,0 +1,55 @@
+/**
+ * API Route: Cancel Sharp Job
+ *
+ * Marks a job that is still queued or running as cancelled. The worker
+ * stops at its next stage, but Modal can't be stopped mid-inference.
+ */
+
+import { ACTIVE_STAGES, supabase } from './_jobs.js';
+
+export const config = {
+  maxDuration: 30,
+};
+
+export default async function handler(req, res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') return res.status(200).end();
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed, use POST' });
+  }
+
+  try {
+    const { request_id } = req.body || {};
+
+    if (!request_id) {
+      return res.status(400).json({ error: 'request_id is required' });
+    }
+
+    const { data: jobs, error: updateError } = await supabase
+      .from('sharp_jobs')
+      .update({ status: 'cancelled' })
+      .eq('id', request_id)
+      .in('status', ACTIVE_STAGES)
+      .select('id');
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    return res.status(200).json({
+      success: true,
+      request_id,
+      // False when the job had already finished, or never existed
+      cancelled: jobs.length > 0,
+    });
+  } catch (err) {
+    console.error('[Sharp] Cancel error:', err);
+    return res.status(500).json({
+      success: false,
+      error: err.message || 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * API Route: Stream Sharp Job Events
+ *
+ * Server-sent events for one or more jobs, request_id takes a comma
+ * separated list so a batch shares one stream. Each change to a job is
+ * sent as a `status` event with the status route's fields. A `done` event
+ * ends the stream once no job is running; before the time limit the
+ * stream just closes and EventSource reconnects.
+ */
+
+import { describeJob, getClientStatus, superviseJob, supabase } from './_jobs.js';
+
+export const config = {
+  maxDuration: 300, // 5 minutes
+};
+
+const CHECK_INTERVAL_MS = 1000;
+// Comment lines that keep proxies from closing a quiet stream
+const HEARTBEAT_MS = 15000;
+// Ends the stream with time to spare before maxDuration
+const STREAM_SECONDS = 280;
+const MAX_IDS = 50;
+
+export default async function handler(req, res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') return res.status(200).end();
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed, use GET' });
+  }
+
+  const requestIds = [...new Set(String(req.query.request_id || '').split(',').filter(Boolean))];
+
+  if (requestIds.length === 0) {
+    return res.status(400).json({ error: 'request_id is required' });
+  }
+  if (requestIds.length > MAX_IDS) {
+    return res.status(400).json({ error: `At most ${MAX_IDS} request IDs per stream` });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+  });
+  res.write('retry: 2000\n\n');
+
+  let closed = false;
+  req.on('close', () => { closed = true; });
+
+  // What each job last looked like to the client
+  const sent = new Map();
+  // Worker kicks still starting, the stream doesn't wait for them
+  const kicks = new Set();
+  const startedAt = Date.now();
+  let lastWriteAt = Date.now();
+
+  try {
+    while (!closed && Date.now() - startedAt < STREAM_SECONDS * 1000) {
+      const { data: jobs, error: fetchError } = await supabase
+        .from('sharp_jobs')
+        .select('*')
+        .in('id', requestIds);
+
+      if (fetchError) throw fetchError;
+
+      const supervised = await Promise.all(jobs.map((job) => superviseJob(req, job)));
+      for (const { kick } of supervised) {
+        if (!kick) continue;
+        kicks.add(kick);
+        kick.finally(() => kicks.delete(kick));
+      }
+
+      for (const job of jobs) {
+        const event = describeJob(job);
+        // Elapsed time alone isn't a change worth sending
+        const key = `${event.status}:${event.stage}:${Math.round((event.progress ?? 0) * 100)}`;
+        if (sent.get(job.id) === key) continue;
+
+        sent.set(job.id, key);
+        res.write(`event: status\ndata: ${JSON.stringify(event)}\n\n`);
+        lastWriteAt = Date.now();
+      }
+
+      // Unknown IDs get no events, clients poll for them instead
+      const running = jobs.some((job) => {
+        const status = getClientStatus(job.status);
+        return status === 'pending' || status === 'processing';
+      });
+      if (!running) {
+        res.write('event: done\ndata: {}\n\n');
+        break;
+      }
+
+      if (Date.now() - lastWriteAt > HEARTBEAT_MS) {
+        res.write(': ping\n\n');
+        lastWriteAt = Date.now();
+      }
+      await new Promise((resolve) => setTimeout(resolve, CHECK_INTERVAL_MS));
+    }
+  } catch (err) {
+    console.error('[Sharp] Events error:', err);
+    // Closing makes EventSource reconnect, which retries the lookup
+  }
+
+  // The function may be frozen once it responds
+  await Promise.all(kicks);
+  res.end();
+}
@@ -1,13 +1,12 @@
 /**
  * API Route: Check Sharp Job Status
+ *
+ * Reports the job's stage and an estimate of its progress. Also looks
+ * after jobs the worker lost, see superviseJob. The events route streams
+ * the same fields as they change.
  */
 
-import { createClient } from '@supabase/supabase-js';
-
-const supabaseUrl = process.env.VITE_SUPABASE_URL || process.env.SUPABASE_URL;
-const supabaseKey = process.env.SUPABASE_SERVICE_KEY;
-
-const supabase = createClient(supabaseUrl, supabaseKey);
+import { describeJob, superviseJob, supabase } from './_jobs.js';
 
 export const config = {
   maxDuration: 30,
@@ -44,21 +43,12 @@ export default async function handler(req, res) {
       });
     }
 
-    const createdAt = new Date(job.created_at);
-    const elapsed = Math.round((Date.now() - createdAt.getTime()) / 1000);
+    const { kick } = await superviseJob(req, job);
+    await kick;
 
     return res.status(200).json({
       success: true,
-      request_id,
-      status: job.status,
-      elapsed_seconds: elapsed,
-      ...(job.status === 'completed' && {
-        filename: job.filename,
-        size_bytes: job.size_bytes,
-      }),
-      ...(job.status === 'failed' && {
-        error: job.error,
-      }),
+      ...describeJob(job),
     });
   } catch (err) {
     console.error('[Sharp] Status error:', err);
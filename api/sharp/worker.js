@@ -0,0 +1,47 @@
+/**
+ * API Route: Run Sharp Job
+ *
+ * Takes a queued job through inferring and storing. Submit kicks this
+ * without waiting for it, and status kicks it again for jobs that stay
+ * queued, so it only responds once the job is done.
+ */
+
+import { runJob } from './_jobs.js';
+
+export const config = {
+  maxDuration: 300, // 5 minutes
+};
+
+export default async function handler(req, res) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') return res.status(200).end();
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed, use POST' });
+  }
+
+  try {
+    const { request_id } = req.body || {};
+
+    if (!request_id) {
+      return res.status(400).json({ error: 'request_id is required' });
+    }
+
+    const ran = await runJob(request_id);
+
+    return res.status(200).json({
+      success: true,
+      request_id,
+      // False when the job wasn't queued, another worker has it
+      ran,
+    });
+  } catch (err) {
+    console.error('[Sharp] Worker error:', err);
+    return res.status(500).json({
+      success: false,
+      error: err.message || 'Unknown error',
+    });
+  }
+}
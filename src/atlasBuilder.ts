@@ -0,0 +1,222 @@
+/**
+ * Atlas Builder - Main thread side of the gallery texture atlas
+ *
+ * Decoding, packing and blurring all happen in atlasWorker.ts. Only the
+ * pixels of slots that changed come back, and are copied into the two
+ * DataArrayTextures the gallery shader samples, uploading just the
+ * affected layers.
+ */
+
+import * as THREE from "three"
+import { AtlasEntry, AtlasOptions, AtlasSlot } from "./textureAtlas"
+import type { AtlasRequest, AtlasResponse } from "./atlasWorker"
+import { DistributiveOmit } from "./types/types"
+
+type AtlasMessage = DistributiveOmit<AtlasRequest, "id">
+
+export default class AtlasBuilder {
+  worker: Worker
+  pageSize: number = 0
+  pageCount: number = 0
+  texture: THREE.DataArrayTexture | null = null
+  blurryTexture: THREE.DataArrayTexture | null = null
+  nextRequestId: number = 0
+  pending: Map<
+    number,
+    { resolve: (response: AtlasResponse) => void; reject: (err: Error) => void }
+  > = new Map()
+
+  constructor(options: AtlasOptions = {}) {
+    this.worker = new Worker(new URL("./atlasWorker.ts", import.meta.url), {
+      type: "module",
+    })
+    this.worker.onmessage = (event: MessageEvent<AtlasResponse>) =>
+      this.onMessage(event.data)
+    this.worker.onerror = (event) => {
+      console.error("[AtlasBuilder] Worker failed:", event.message)
+      this.rejectAll(new Error(event.message || "Atlas worker failed"))
+    }
+
+    this.request({ type: "init", options })
+  }
+
+  /**
+   * Add images to the atlas, resolving with their entries in input order.
+   * Images that fail to decode get null and take no slot.
+   */
+  async add(urls: string[]): Promise<(AtlasEntry | null)[]> {
+    // Relative paths would resolve against the worker script
+    const sources = urls.map((url) => new URL(url, window.location.href).href)
+    const { entries = [] } = await this.request({ type: "add", sources })
+
+    // Some formats only decode through an <img> element on the main thread
+    const failed = entries
+      .map((entry, index) => (entry ? -1 : index))
+      .filter((index) => index !== -1)
+    const loaded = await Promise.allSettled(
+      failed.map((index) => loadBitmap(sources[index]))
+    )
+    const retried = failed.filter((_, k) => loaded[k].status === "fulfilled")
+    if (retried.length > 0) {
+      const bitmaps = loaded
+        .filter((result) => result.status === "fulfilled")
+        .map((result) => (result as PromiseFulfilledResult<ImageBitmap>).value)
+      let retry: AtlasResponse
+      try {
+        retry = await this.request({ type: "add", sources: bitmaps }, bitmaps)
+      } catch (err) {
+        // Give back the slots the first pass placed
+        await this.remove(entries.filter((entry): entry is AtlasEntry => !!entry))
+        throw err
+      }
+      retried.forEach((index, k) => (entries[index] = retry.entries?.[k] ?? null))
+    }
+
+    return urls.map((url, index) => {
+      const entry = entries[index] ?? null
+      if (!entry) console.warn(`[AtlasBuilder] Failed to decode image: ${url}`)
+      return entry
+    })
+  }
+
+  /**
+   * Release entries' slots for later images
+   */
+  remove(entries: AtlasEntry[]) {
+    // Placeholders never had a slot
+    const placed = entries.filter((entry) => entry.uvs.page >= 0)
+    if (placed.length === 0) return Promise.resolve()
+    return this.request({ type: "remove", entries: placed }).then(() => {})
+  }
+
+  /**
+   * Drop every image, the next add starts from an empty atlas
+   */
+  reset() {
+    return this.request({ type: "reset" }).then(() => {})
+  }
+
+  request(message: AtlasMessage, transfer: Transferable[] = []) {
+    const id = this.nextRequestId++
+
+    return new Promise<AtlasResponse>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject })
+      this.worker.postMessage({ ...message, id }, transfer)
+    })
+  }
+
+  onMessage(response: AtlasResponse) {
+    const pending = this.pending.get(response.id)
+    this.pending.delete(response.id)
+
+    // Apply pixels even for a failed request, the worker may have
+    // drawn part of the batch
+    this.applyRegions(response)
+
+    if (!pending) return
+    if (response.error) {
+      pending.reject(new Error(response.error))
+    } else {
+      pending.resolve(response)
+    }
+  }
+
+  rejectAll(err: Error) {
+    this.pending.forEach(({ reject }) => reject(err))
+    this.pending.clear()
+  }
+
+  /**
+   * Copy changed slots into the textures. Adding a page reallocates both
+   * textures, keeping the pixels of the existing pages.
+   */
+  applyRegions({ pageSize, pageCount, regions }: AtlasResponse) {
+    this.pageSize = pageSize
+
+    if (!this.texture || !this.blurryTexture || pageCount !== this.pageCount) {
+      this.texture = this.resizeTexture(this.texture, pageCount)
+      this.blurryTexture = this.resizeTexture(this.blurryTexture, pageCount)
+      this.pageCount = pageCount
+    } else {
+      regions.forEach(({ page }) => {
+        this.texture!.addLayerUpdate(page)
+        this.blurryTexture!.addLayerUpdate(page)
+      })
+    }
+
+    for (const { page, slot, pixels, blurred } of regions) {
+      this.writeSlot(this.texture, page, slot, pixels)
+      this.writeSlot(this.blurryTexture, page, slot, blurred)
+    }
+
+    if (regions.length > 0) {
+      this.texture.needsUpdate = true
+      this.blurryTexture.needsUpdate = true
+    }
+  }
+
+  writeSlot(
+    texture: THREE.DataArrayTexture,
+    pageIndex: number,
+    slot: AtlasSlot,
+    pixels: Uint8ClampedArray
+  ) {
+    const data = texture.image.data as Uint8Array
+    const layerOffset = pageIndex * this.pageSize * this.pageSize * 4
+    const rowSize = slot.width * 4
+
+    for (let row = 0; row < slot.height; row++) {
+      const target = layerOffset + ((slot.y + row) * this.pageSize + slot.x) * 4
+      data.set(pixels.subarray(row * rowSize, (row + 1) * rowSize), target)
+    }
+  }
+
+  resizeTexture(previous: THREE.DataArrayTexture | null, pageCount: number) {
+    const layerSize = this.pageSize * this.pageSize * 4
+    const depth = Math.max(1, pageCount)
+    const data = new Uint8Array(layerSize * depth)
+
+    // A shrinking page count means the atlas was reset, start blank
+    if (
+      previous &&
+      previous.image.width === this.pageSize &&
+      pageCount > this.pageCount
+    ) {
+      const kept = previous.image.data as Uint8Array
+      data.set(kept.subarray(0, Math.min(kept.length, data.length)))
+    }
+    previous?.dispose()
+
+    const texture = new THREE.DataArrayTexture(
+      data,
+      this.pageSize,
+      this.pageSize,
+      depth
+    )
+    texture.wrapS = THREE.ClampToEdgeWrapping
+    texture.wrapT = THREE.ClampToEdgeWrapping
+    texture.minFilter = THREE.LinearFilter
+    texture.magFilter = THREE.LinearFilter
+    texture.needsUpdate = true
+    return texture
+  }
+
+  dispose() {
+    this.worker.terminate()
+    this.rejectAll(new Error("Atlas builder disposed"))
+    this.texture?.dispose()
+    this.blurryTexture?.dispose()
+    this.texture = null
+    this.blurryTexture = null
+  }
+}
+
+const loadBitmap = (url: string) => {
+  return new Promise<ImageBitmap>((resolve, reject) => {
+    const img = new Image()
+    img.crossOrigin = "anonymous"
+    img.onload = () => createImageBitmap(img).then(resolve, reject)
+    img.onerror = (e) => reject(e)
+    img.src = url
+  })
+}
@@ -0,0 +1,100 @@
+/**
+ * Atlas Worker - Build the gallery texture atlas off the main thread
+ *
+ * Fetches and decodes images with createImageBitmap, packs them into
+ * OffscreenCanvas pages and blurs them, then sends the changed pixels back
+ * as transferred buffers. Requests are handled strictly in order.
+ */
+
+import TextureAtlas, {
+  AtlasEntry,
+  AtlasOptions,
+  AtlasRegion,
+} from "./textureAtlas"
+
+export type AtlasRequest = { id: number } & (
+  | { type: "init"; options: AtlasOptions }
+  // URLs are fetched here, bitmaps come from the main thread's fallback
+  | { type: "add"; sources: (string | ImageBitmap)[] }
+  | { type: "remove"; entries: AtlasEntry[] }
+  | { type: "reset" }
+)
+
+export interface AtlasResponse {
+  id: number
+  pageSize: number
+  pageCount: number
+  regions: AtlasRegion[]
+  // One per added source, null where the image could not be decoded
+  entries?: (AtlasEntry | null)[]
+  error?: string
+}
+
+let atlas = new TextureAtlas()
+let queue: Promise<void> = Promise.resolve()
+
+self.onmessage = (event: MessageEvent<AtlasRequest>) => {
+  const request = event.data
+  queue = queue.then(() => handle(request))
+}
+
+async function handle(request: AtlasRequest) {
+  let entries: (AtlasEntry | null)[] | undefined
+  let error: string | undefined
+
+  try {
+    switch (request.type) {
+      case "init":
+        atlas = new TextureAtlas(request.options)
+        break
+      case "add":
+        entries = await add(request.sources)
+        break
+      case "remove":
+        request.entries.forEach((entry) => atlas.remove(entry))
+        break
+      case "reset":
+        atlas.reset()
+        break
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err)
+  }
+
+  const regions = atlas.takeRegions()
+  const response: AtlasResponse = {
+    id: request.id,
+    pageSize: atlas.pageSize,
+    pageCount: atlas.pages.length,
+    regions,
+    entries,
+    error,
+  }
+  self.postMessage(response, {
+    transfer: regions.flatMap((region) => [
+      region.pixels.buffer,
+      region.blurred.buffer,
+    ]),
+  })
+}
+
+async function add(sources: (string | ImageBitmap)[]) {
+  const bitmaps = await Promise.all(
+    sources.map((source) => decode(source).catch(() => null))
+  )
+
+  const decoded = bitmaps.filter((bitmap): bitmap is ImageBitmap => !!bitmap)
+  const built = atlas.build(decoded)
+  decoded.forEach((bitmap) => bitmap.close())
+
+  let next = 0
+  return bitmaps.map((bitmap) => (bitmap ? built[next++] : null))
+}
+
+async function decode(source: string | ImageBitmap) {
+  if (typeof source !== "string") return source
+
+  const res = await fetch(source, { mode: "cors" })
+  if (!res.ok) throw new Error(`Failed to fetch image: ${source}`)
+  return createImageBitmap(await res.blob())
+}
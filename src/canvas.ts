@@ -3,7 +3,19 @@ import { Dimensions, Size } from "./types/types"
 import { OrbitControls } from "three/addons/controls/OrbitControls.js"
 import GUI from "lil-gui"
 import Planes from "./planes"
-import SplatViewer from "./splatViewer"
+import SplatViewer, { SplatOriginal } from "./splatViewer"
+import SplatField from "./splatField"
+import { compactSettings } from "./splatLoader"
+import { queueSettings, runQueue } from "./splatQueue"
+import { providerSettings } from "./sharpService"
+import { mockSettings } from "./mockProvider"
+import { Photo } from "./photoService"
+import gsap from "gsap"
+
+const FLY_DURATION = 1.2
+
+// "field" floats splats among the cards, "splats" shows one splat alone
+export type ViewMode = 'photos' | 'splats' | 'field'
 
 export default class Canvas {
   element: HTMLCanvasElement
@@ -21,12 +33,30 @@ export default class Canvas {
   planes: Planes
   splatViewer: SplatViewer | null = null
   material: THREE.ShaderMaterial
-  viewMode: 'photos' | 'splats' = 'photos'
+  splatField: SplatField | null = null
+  viewMode: ViewMode = 'photos'
+  onPlaneClick?: (index: number, photo?: Photo) => void
+  // Store and drop cleaned splats from the viewer's editor
+  onSaveCleanup?: SplatViewer["onSaveCleanup"]
+  onRestoreOriginal?: SplatViewer["onRestoreOriginal"]
+  // Where the camera rests while browsing the gallery
+  cameraHome: THREE.Vector3 = new THREE.Vector3(0, 0, 10)
+  // Last card hit by a click, so the camera flies into that copy
+  pickedInstance: number = -1
+  // Card the camera is flying into, progress 0 at home and 1 at the card
+  focus: { instance: number; progress: number; focalDistance: number } = {
+    instance: -1,
+    progress: 0,
+    focalDistance: 0,
+  }
+  focusTween: gsap.core.Tween | null = null
+  focusPoint: THREE.Vector3 = new THREE.Vector3()
 
   constructor() {
     this.element = document.getElementById("webgl") as HTMLCanvasElement
     this.time = 0
     this.createClock()
+    this.createRaycaster()
     this.createScene()
     this.createCamera()
     this.createRenderer()
@@ -34,8 +64,15 @@ export default class Canvas {
     this.addEventListeners()
     this.createDebug()
     this.createPlanes()
-
-    this.debug.hide()
+    this.createDepthOfFieldDebug()
+    this.createDensityDebug()
+    this.createSplatFileDebug()
+    this.createSplatQueueDebug()
+
+    // Open the app with #debug to tweak parameters
+    if (window.location.hash !== "#debug") {
+      this.debug.hide()
+    }
 
     this.render()
   }
@@ -52,7 +89,7 @@ export default class Canvas {
       100
     )
     this.scene.add(this.camera)
-    this.camera.position.z = 10
+    this.camera.position.copy(this.cameraHome)
   }
 
   createHelpers() {
@@ -67,12 +104,72 @@ export default class Canvas {
     )
   }
 
+  createRaycaster() {
+    this.raycaster = new THREE.Raycaster()
+  }
+
   createPlanes() {
-    this.planes = new Planes({ scene: this.scene, sizes: this.sizes })
+    this.planes = new Planes({
+      scene: this.scene,
+      sizes: this.sizes,
+      maxTextureSize: this.renderer.capabilities.maxTextureSize,
+      onPlaneClick: (index, photo) => this.onPlaneClick?.(index, photo),
+    })
     // Bind drag interactions to the renderer's canvas
     this.planes.bindDrag(this.renderer.domElement)
   }
 
+  createDepthOfFieldDebug() {
+    const uniforms = this.planes.material.uniforms
+    const folder = this.debug.addFolder("Depth of field")
+
+    folder.add(uniforms.uFocalDistance, "value", 1, 40, 0.1).name("Focal distance")
+    folder.add(uniforms.uAperture, "value", 0, 0.3, 0.001).name("Aperture")
+    folder.add(uniforms.uMotionBlur, "value", 0, 1, 0.01).name("Motion blur")
+  }
+
+  createDensityDebug() {
+    const { targetCards, maxCopiesPerPhoto, maxCards } = this.planes.density
+    const density = { targetCards, maxCopiesPerPhoto, maxCards }
+    const folder = this.debug.addFolder("Cards")
+    const apply = () => this.planes.setDensity(density)
+
+    folder.add(density, "targetCards", 10, 2000, 1).name("Target cards").onFinishChange(apply)
+    folder.add(density, "maxCopiesPerPhoto", 1, 64, 1).name("Max copies").onFinishChange(apply)
+    folder.add(density, "maxCards", 100, 10000, 100).name("Max cards").onFinishChange(apply)
+  }
+
+  // Applies to splats converted from now on, existing copies are kept
+  createSplatFileDebug() {
+    const folder = this.debug.addFolder("Splat files")
+
+    folder.add(compactSettings, "enabled").name("Compact PLY")
+    folder
+      .add(compactSettings, "compressionLevel", { Float32: 0, Float16: 1, "8-bit SH": 2 })
+      .name("Quantisation")
+    folder
+      .add(compactSettings, "sphericalHarmonicsDegree", { Strip: 0, "Degree 1": 1, "Degree 2": 2 })
+      .name("Harmonics")
+  }
+
+  createSplatQueueDebug() {
+    const folder = this.debug.addFolder("Splat generation")
+
+    // More room starts queued jobs right away, less lets running ones finish
+    folder
+      .add(queueSettings, "concurrency", 1, 8, 1)
+      .name("Parallel jobs")
+      .onFinishChange(() => runQueue())
+
+    // Applies to photos submitted from now on
+    folder.add(providerSettings, "provider", { Sharp: "sharp", Mock: "mock" }).name("Provider")
+    folder.add(mockSettings, "delay", 0, 60000, 500).name("Mock delay (ms)")
+    folder.add(mockSettings, "failureRate", 0, 1, 0.05).name("Mock failure rate")
+    folder
+      .add(mockSettings, "failureMode", { "Job fails": "job", "Submit fails": "submit" })
+      .name("Mock failure")
+  }
+
   /**
    * Initialize splat viewer (call when splats are ready)
    */
@@ -83,8 +180,16 @@ export default class Canvas {
       scene: this.scene,
       renderer: this.renderer,
       camera: this.camera,
-      sizes: this.sizes,
     })
+    this.splatViewer.onClose = () => this.closeSplat()
+    this.splatViewer.onSaveCleanup = (photoId, data, cleanup) => {
+      if (!this.onSaveCleanup) return Promise.reject(new Error("Saving is not set up"))
+      return this.onSaveCleanup(photoId, data, cleanup)
+    }
+    this.splatViewer.onRestoreOriginal = (photoId) => {
+      if (!this.onRestoreOriginal) return Promise.reject(new Error("Restoring is not set up"))
+      return this.onRestoreOriginal(photoId)
+    }
 
     console.log('[Canvas] Splat viewer initialized')
   }
@@ -92,11 +197,110 @@ export default class Canvas {
   /**
    * Add a splat to the viewer
    */
-  addSplat(id: string, plyUrl: string) {
+  addSplat(id: string, plyUrl: string, original?: SplatOriginal) {
     if (!this.splatViewer) {
       this.initSplatViewer()
     }
-    this.splatViewer!.addSplat(id, plyUrl)
+    this.splatViewer!.addSplat(id, plyUrl, original)
+    this.splatField?.setSplats(this.splatViewer!.splats)
+  }
+
+  /**
+   * Keep only the splats of these photos
+   */
+  retainSplats(photoIds: string[]) {
+    if (!this.splatViewer) return
+    this.splatViewer.retainSplats(new Set(photoIds))
+    this.splatField?.setSplats(this.splatViewer.splats)
+  }
+
+  /**
+   * Fly the camera into a photo's card, then fade its splat in over it
+   */
+  async openSplat(photoId: string) {
+    if (!this.splatViewer?.hasSplat(photoId) || this.focus.instance >= 0) return
+
+    const instance =
+      this.planes.getInstancePhotoId(this.pickedInstance) === photoId
+        ? this.pickedInstance
+        : this.planes.findPhotoInstance(photoId, this.camera.position)
+
+    if (instance >= 0) {
+      this.focus.instance = instance
+      this.focus.focalDistance = this.planes.material.uniforms.uFocalDistance.value
+      await this.tweenFocus(1)
+    }
+
+    await this.splatViewer.open(photoId)
+  }
+
+  /**
+   * Fly back out to the gallery from whichever card shows the splat that
+   * was open last, wherever that card has moved to since
+   */
+  async closeSplat() {
+    const photoId = this.splatViewer?.currentPhotoId
+    if (photoId && this.planes.getInstancePhotoId(this.focus.instance) !== photoId) {
+      const instance = this.planes.findPhotoInstance(photoId, this.cameraHome)
+      if (instance >= 0) {
+        if (this.focus.instance < 0) {
+          this.focus.focalDistance = this.planes.material.uniforms.uFocalDistance.value
+        }
+        this.focus.instance = instance
+        this.focus.progress = 1
+      }
+    }
+
+    if (this.focus.instance >= 0) {
+      await this.tweenFocus(0)
+      this.planes.material.uniforms.uFocalDistance.value = this.focus.focalDistance
+    }
+
+    this.focus.instance = -1
+    this.planes.setFocus(-1)
+    this.camera.position.copy(this.cameraHome)
+  }
+
+  tweenFocus(progress: number) {
+    this.focusTween?.kill()
+
+    return new Promise<void>((resolve) => {
+      this.focusTween = gsap.to(this.focus, {
+        progress,
+        duration: FLY_DURATION,
+        ease: "power3.inOut",
+        onComplete: resolve,
+      })
+    })
+  }
+
+  /**
+   * Distance from a card at which the gallery camera sees the same slice
+   * of space as the splat viewer's camera sees around the splat
+   */
+  getFocusDistance() {
+    return this.splatViewer!.getFramingDistance(this.camera.fov)
+  }
+
+  /**
+   * Keep the camera locked onto the focused card as the field moves
+   */
+  updateFocus() {
+    const { instance, progress, focalDistance } = this.focus
+    if (instance < 0) return
+
+    const distance = this.getFocusDistance()
+    this.planes.getInstanceCenter(instance, this.focusPoint)
+    this.focusPoint.z += distance
+    this.camera.position.lerpVectors(this.cameraHome, this.focusPoint, progress)
+
+    // The card dissolves over the last stretch of the flight
+    this.planes.setFocus(instance, 1 - THREE.MathUtils.smoothstep(progress, 0.6, 1))
+    this.planes.material.uniforms.uFocalDistance.value = THREE.MathUtils.lerp(
+      focalDistance,
+      distance,
+      progress
+    )
   }
 
   /**
@@ -108,26 +312,79 @@ export default class Canvas {
       return
     }
 
+    this.disposeSplatField()
     this.viewMode = 'splats'
     // Hide photo planes
     if (this.planes?.mesh) {
       this.planes.mesh.visible = false
+      this.planes.isInteractive = false
     }
+
+    // Orbit around the embedded splat
+    this.splatViewer.showEmbedded().then(() => {
+      if (this.viewMode !== 'splats') return
+      if (!this.orbitControls) this.createOrbitControls()
+      this.orbitControls.target.copy(this.splatViewer!.embeddedCenter)
+      this.orbitControls.enabled = true
+      this.orbitControls.update()
+    })
     console.log('[Canvas] Switched to splat view')
   }
 
+  /**
+   * Switch to splat field mode, splats float among the cards near the camera
+   */
+  switchToField() {
+    if (!this.splatViewer || this.splatViewer.getSplatCount() === 0) {
+      console.warn('[Canvas] No splats to display')
+      return
+    }
+
+    if (this.viewMode === 'splats') this.switchToPhotos()
+    if (this.viewMode === 'field') return
+
+    this.viewMode = 'field'
+    this.splatField = new SplatField({
+      scene: this.scene,
+      renderer: this.renderer,
+      camera: this.camera,
+      planes: this.planes,
+      framing: this.splatViewer.framing,
+    })
+    this.splatField.setSplats(this.splatViewer.splats)
+    console.log('[Canvas] Switched to splat field')
+  }
+
+  disposeSplatField() {
+    this.splatField?.dispose()
+    this.splatField = null
+  }
+
   /**
    * Switch to photo view mode
    */
   switchToPhotos() {
+    this.disposeSplatField()
     this.viewMode = 'photos'
     // Show photo planes
     if (this.planes?.mesh) {
       this.planes.mesh.visible = true
+      this.planes.isInteractive = true
     }
+
+    this.splatViewer?.hideEmbedded()
+    if (this.orbitControls) this.orbitControls.enabled = false
+    this.camera.position.copy(this.cameraHome)
+    this.camera.rotation.set(0, 0, 0)
     console.log('[Canvas] Switched to photo view')
   }
 
+  setViewMode(mode: ViewMode) {
+    if (mode === 'splats') this.switchToSplats()
+    else if (mode === 'field') this.switchToField()
+    else this.switchToPhotos()
+  }
+
   /**
    * Toggle between photo and splat views
    */
@@ -163,7 +420,7 @@ export default class Canvas {
 
   setSizes() {
     let fov = this.camera.fov * (Math.PI / 180)
-    let height = this.camera.position.z * Math.tan(fov / 2) * 2
+    let height = this.cameraHome.z * Math.tan(fov / 2) * 2
     let width = height * this.camera.aspect
 
     this.sizes = {
@@ -181,7 +438,21 @@ export default class Canvas {
     this.mouse.y = -(event.clientY / window.innerHeight) * 2 + 1
   }
 
+  onPointerUp(event: PointerEvent) {
+    if (this.viewMode === 'splats' || !this.planes) return
+    if (!this.planes.isClick(event) || this.focus.instance >= 0) return
+
+    this.mouse.x = (event.clientX / window.innerWidth) * 2 - 1
+    this.mouse.y = -(event.clientY / window.innerHeight) * 2 + 1
+    this.raycaster.setFromCamera(this.mouse, this.camera)
+
+    const index = this.planes.pickInstance(this.raycaster.ray, this.camera.near)
+    this.pickedInstance = index
+    this.planes.handleInstanceClick(index)
+  }
+
   addEventListeners() {
+    this.element.addEventListener("pointerup", this.onPointerUp.bind(this))
     window.addEventListener("mousemove", this.onMouseMove.bind(this))
     window.addEventListener("resize", this.onResize.bind(this))
   }
@@ -210,6 +481,19 @@ export default class Canvas {
 
     // Update planes physics and render
     this.planes?.render(normalizedDelta)
+    this.updateFocus()
+
+    if (this.viewMode === 'field' && this.splatField) {
+      this.splatField.update(delta)
+      // Loaded splats are drawn together with the scene
+      if (this.splatField.render()) return
+    }
+
+    if (this.viewMode === 'splats') {
+      this.orbitControls?.update()
+      // The splat viewer draws the scene along with the splats once loaded
+      if (this.splatViewer?.renderEmbedded()) return
+    }
 
     // Render the scene
     this.renderer.render(this.scene, this.camera)
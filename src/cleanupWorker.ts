@@ -0,0 +1,66 @@
+/**
+ * Cleanup Worker - Filter splats for the editor off the main thread
+ *
+ * Holds the PLY being edited so each slider change only sends settings.
+ * Neighbour distances for the outlier filter take longest and are kept
+ * per neighbour count, so moving the threshold alone stays quick.
+ */
+
+import {
+  getKeptMask,
+  getNeighbourDistances,
+  NeighbourDistances,
+  SplatCleanup,
+  writeCleanedPly,
+} from './splatCleanup'
+
+export type CleanupRequest = { id: number } & (
+  | { type: 'load'; data: ArrayBuffer }
+  | { type: 'filter'; cleanup: SplatCleanup }
+)
+
+export interface CleanupResponse {
+  id: number
+  data?: ArrayBuffer
+  kept?: number
+  total?: number
+  error?: string
+}
+
+let source: ArrayBuffer | null = null
+let distances: Map<number, NeighbourDistances> = new Map()
+
+self.onmessage = (event: MessageEvent<CleanupRequest>) => {
+  const request = event.data
+
+  try {
+    if (request.type === 'load') {
+      source = request.data
+      distances = new Map()
+      const response: CleanupResponse = { id: request.id }
+      self.postMessage(response)
+      return
+    }
+
+    if (!source) throw new Error('No splat loaded')
+    const { cleanup } = request
+
+    let neighbours: NeighbourDistances | null = null
+    if (cleanup.outliers) {
+      const count = cleanup.outliers.neighbours
+      neighbours = distances.get(count) ?? getNeighbourDistances(source, count)
+      distances.set(count, neighbours)
+    }
+
+    const kept = getKeptMask(source, cleanup, neighbours)
+    const result = writeCleanedPly(source, kept)
+    const response: CleanupResponse = { id: request.id, ...result }
+    self.postMessage(response, { transfer: [result.data] })
+  } catch (err) {
+    const response: CleanupResponse = {
+      id: request.id,
+      error: err instanceof Error ? err.message : String(err),
+    }
+    self.postMessage(response)
+  }
+}
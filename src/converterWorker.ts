@@ -0,0 +1,63 @@
+/**
+ * Converter Worker - Turn PLY splats into compact .ksplat files
+ *
+ * Parsing a PLY of a million Gaussians and repacking it takes seconds, so
+ * it happens here instead of on the main thread. The PLY's stats are read
+ * on the way, the compact file no longer has what they are measured from.
+ */
+
+import * as GaussianSplats3D from '@mkkellogg/gaussian-splats-3d'
+import { analyzeSplat, SplatStats } from './plyParser'
+
+export interface ConvertOptions {
+  // 0 keeps 32-bit floats, 1 stores half floats, 2 also packs the
+  // spherical harmonics into bytes
+  compressionLevel: 0 | 1 | 2
+  // Spherical harmonics degree to keep, 0 strips them
+  sphericalHarmonicsDegree: 0 | 1 | 2
+}
+
+export interface ConvertRequest {
+  id: number
+  data: ArrayBuffer
+  options: ConvertOptions
+}
+
+export interface ConvertResponse {
+  id: number
+  data?: ArrayBuffer
+  stats?: SplatStats | null
+  error?: string
+}
+
+// Keep every Gaussian, the viewers apply their own alpha threshold
+const ALPHA_REMOVAL_THRESHOLD = 1
+
+self.onmessage = (event: MessageEvent<ConvertRequest>) => {
+  const { id, data, options } = event.data
+
+  try {
+    const splatArray = GaussianSplats3D.PlyParser.parseToUncompressedSplatArray(
+      data,
+      options.sphericalHarmonicsDegree
+    )
+    const splatBuffer = GaussianSplats3D.SplatBufferGenerator.getStandardGenerator(
+      ALPHA_REMOVAL_THRESHOLD,
+      options.compressionLevel
+    ).generateFromUncompressedSplatArray(splatArray)
+
+    let stats: SplatStats | null = null
+    try {
+      stats = analyzeSplat(data)
+    } catch (err) {}
+
+    const response: ConvertResponse = { id, data: splatBuffer.bufferData, stats }
+    self.postMessage(response, { transfer: [splatBuffer.bufferData] })
+  } catch (err) {
+    const response: ConvertResponse = {
+      id,
+      error: err instanceof Error ? err.message : String(err),
+    }
+    self.postMessage(response)
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Layouts - Arrange gallery cards in 3D space
+ *
+ * Each layout returns a base position for every instance. The vertex shader
+ * still adds drag, scroll and (in the random field only) time drift on top.
+ */
+
+export type LayoutMode = "random" | "timeline" | "grid" | "spiral"
+
+export const LAYOUT_MODES: { mode: LayoutMode; label: string }[] = [
+  { mode: "random", label: "Random field" },
+  { mode: "timeline", label: "Timeline tunnel" },
+  { mode: "grid", label: "Grid" },
+  { mode: "spiral", label: "Spiral" },
+]
+
+export interface LayoutBounds {
+  maxX: number
+  maxY: number
+  minZ: number
+  maxZ: number
+}
+
+export interface LayoutContext {
+  count: number
+  bounds: LayoutBounds
+  // Image shown on each instance, -1 when unassigned
+  instanceImages: Int32Array
+  // Sort key per image, e.g. Photo.timestamp
+  imageTimes: number[]
+  // Seeded generator, the same seed always gives the same layout
+  random: () => number
+}
+
+const GRID_SPACING = 2.3
+const TUNNEL_RADIUS = 5.5
+const SPIRAL_RADIUS = 4.5
+const SPIRAL_STEP = 0.35
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5))
+
+export function computeLayout(mode: LayoutMode, context: LayoutContext) {
+  switch (mode) {
+    case "timeline":
+      return timelineLayout(context)
+    case "grid":
+      return gridLayout(context)
+    case "spiral":
+      return spiralLayout(context)
+    case "random":
+    default:
+      return randomLayout(context)
+  }
+}
+
+/**
+ * Scatter cards inside the wrap box, the original gallery look
+ */
+function randomLayout({ count, bounds, random }: LayoutContext) {
+  const positions = new Float32Array(count * 3)
+
+  for (let i = 0; i < count; i++) {
+    positions[i * 3 + 0] = (random() - 0.5) * bounds.maxX * 2
+    positions[i * 3 + 1] = (random() - 0.5) * bounds.maxY * 2
+    positions[i * 3 + 2] = random() * (bounds.maxZ - bounds.minZ) + bounds.minZ
+  }
+
+  return positions
+}
+
+/**
+ * Cards line the walls of a tunnel, oldest photos closest to the camera
+ */
+function timelineLayout(context: LayoutContext) {
+  const { count, bounds } = context
+  const positions = new Float32Array(count * 3)
+  const order = chronologicalOrder(context)
+
+  order.forEach((instance, k) => {
+    const angle = k * GOLDEN_ANGLE
+    positions[instance * 3 + 0] = Math.cos(angle) * TUNNEL_RADIUS
+    positions[instance * 3 + 1] = Math.sin(angle) * TUNNEL_RADIUS
+    positions[instance * 3 + 2] = depthAt(k / count, bounds)
+  })
+
+  return positions
+}
+
+/**
+ * A flat wall of cards facing the camera
+ */
+function gridLayout(context: LayoutContext) {
+  const { count, bounds } = context
+  const positions = new Float32Array(count * 3)
+  const order = interleavedOrder(context)
+
+  const columns = Math.ceil(Math.sqrt((count * bounds.maxX) / bounds.maxY))
+  const rows = Math.ceil(count / columns)
+
+  order.forEach((instance, k) => {
+    const column = k % columns
+    const row = Math.floor(k / columns)
+    positions[instance * 3 + 0] = (column - (columns - 1) / 2) * GRID_SPACING
+    positions[instance * 3 + 1] = ((rows - 1) / 2 - row) * GRID_SPACING
+    positions[instance * 3 + 2] = 0
+  })
+
+  return positions
+}
+
+/**
+ * A helix winding away from the camera
+ */
+function spiralLayout(context: LayoutContext) {
+  const { count, bounds } = context
+  const positions = new Float32Array(count * 3)
+  const order = interleavedOrder(context)
+
+  order.forEach((instance, k) => {
+    const angle = k * SPIRAL_STEP
+    positions[instance * 3 + 0] = Math.cos(angle) * SPIRAL_RADIUS
+    positions[instance * 3 + 1] = Math.sin(angle) * SPIRAL_RADIUS
+    positions[instance * 3 + 2] = depthAt(k / count, bounds)
+  })
+
+  return positions
+}
+
+// From the front of the field (t = 0) to the back (t = 1)
+function depthAt(t: number, bounds: LayoutBounds) {
+  return bounds.maxZ - t * (bounds.maxZ - bounds.minZ)
+}
+
+/**
+ * Instances sorted by their image's time, copies of one image kept together
+ */
+function chronologicalOrder({ count, instanceImages, imageTimes }: LayoutContext) {
+  return Array.from({ length: count }, (_, i) => i).sort((a, b) => {
+    const timeA = imageTimes[instanceImages[a]] ?? Infinity
+    const timeB = imageTimes[instanceImages[b]] ?? Infinity
+    return timeA - timeB || instanceImages[a] - instanceImages[b] || a - b
+  })
+}
+
+/**
+ * Instances cycling through every image before any image repeats, images
+ * in a shuffled order
+ */
+function interleavedOrder({ count, instanceImages, random }: LayoutContext) {
+  const imageCount = Math.max(0, ...instanceImages) + 1
+  const rank = shuffle(Array.from({ length: imageCount }, (_, i) => i), random)
+
+  const seen = new Map<number, number>()
+  const copy = new Int32Array(count)
+  for (let i = 0; i < count; i++) {
+    const image = instanceImages[i]
+    const n = seen.get(image) ?? 0
+    copy[i] = n
+    seen.set(image, n + 1)
+  }
+
+  return Array.from({ length: count }, (_, i) => i).sort(
+    (a, b) =>
+      copy[a] - copy[b] ||
+      (rank[instanceImages[a]] ?? -1) - (rank[instanceImages[b]] ?? -1)
+  )
+}
+
+function shuffle<T>(items: T[], random: () => number) {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    const item = items[i]
+    items[i] = items[j]
+    items[j] = item
+  }
+  return items
+}
@@ -1,21 +1,38 @@
 import "./style.css"
-import Canvas from "./canvas"
+import Canvas, { ViewMode } from "./canvas"
 import {
   initPhotoService,
   addPhotosFromFiles,
-  getPhotoUrls,
   getPhotos,
   getAlbums,
   switchAlbum,
   createAlbum,
-  updatePhotoSplatStatus,
+  updateAlbumLayout,
+  updateAlbumSeed,
+  getCurrentAlbum,
+  getCurrentAlbumId,
+  onPhotosChanged,
+  saveCleanedSplat,
+  restoreOriginalSplat,
+  getPhotoById,
   Photo,
   Album,
 } from "./photoService"
-import { sharpService } from "./sharpService"
+import {
+  initSplatQueue,
+  enqueueSplats,
+  cancelSplatJob,
+  cancelAllSplatJobs,
+  hasSplatJob,
+  SplatJob,
+} from "./splatQueue"
+import { LAYOUT_MODES, LayoutMode } from "./layouts"
+import { CardFit, DensityOptions } from "./planes"
+import { randomSeed } from "./utils/random"
 
 class App {
   canvas!: Canvas
+  // Whether the queue has had jobs since it was last empty
   isGeneratingSplats: boolean = false
   currentAlbums: Album[] = []
   readySplatsCount: number = 0
@@ -31,10 +48,21 @@ class App {
 
     // Create canvas
     this.canvas = new Canvas()
+    this.canvas.onPlaneClick = (_index, photo) => this.openPhoto(photo)
+    this.canvas.onSaveCleanup = saveCleanedSplat
+    this.canvas.onRestoreOriginal = restoreOriginalSplat
+
+    // Keep per-card splat status in sync
+    onPhotosChanged((photos) => {
+      this.canvas.planes.updateSplatStatuses(photos)
+      this.updateRetryButton(photos)
+    })
 
     // Setup UI
     this.setupUploadUI()
     this.setupAlbumUI()
+    this.setupLayoutUI()
+    this.setupViewToggle()
     this.setupSplatModal()
 
     // Hide instructions after interaction
@@ -43,27 +71,133 @@ class App {
     // Load any existing splats from photos
     this.loadExistingSplats()
 
+    // Pick up generations from before the last reload
+    await this.setupSplatQueue()
+
     // Start render loop
     this.render()
   }
 
   /**
-   * Load splats from photos that already have splatUrl
+   * Show the splats of the current album's photos that have a splatUrl.
+   * Runs again after an album switch, dropping the last album's splats
+   * and keeping the ones the viewer already has.
    */
   loadExistingSplats() {
     const photos = getPhotos()
-    for (const photo of photos) {
-      if (photo.splatUrl && photo.splatStatus === 'ready') {
-        this.canvas.addSplat(photo.id, photo.splatUrl)
-        this.readySplatsCount++
-      }
+    this.canvas.retainSplats(photos.map((photo) => photo.id))
+
+    const ready = photos.filter((photo) => photo.splatUrl && photo.splatStatus === 'ready')
+    for (const photo of ready) {
+      if (!this.canvas.splatViewer?.hasSplat(photo.id)) this.addPhotoSplat(photo)
     }
+    this.readySplatsCount = ready.length
 
     if (this.readySplatsCount > 0) {
       this.updateSplatCount()
     }
   }
 
+  /**
+   * Resume the stored splat jobs, and queue photos of the current album
+   * that were left waiting without one
+   */
+  async setupSplatQueue() {
+    const cancelBtn = document.getElementById("status-cancel")
+    cancelBtn?.addEventListener("click", () => cancelAllSplatJobs())
+
+    const retryBtn = document.getElementById("retry-failed-btn")
+    retryBtn?.addEventListener("click", () => {
+      const failed = getPhotos().filter((photo) => photo.splatStatus === "failed")
+      this.generateSplatsForPhotos(failed)
+    })
+    this.updateRetryButton(getPhotos())
+
+    await initSplatQueue({
+      onProgress: (photoId, progress) => {
+        const name = getPhotoById(photoId)?.name ?? "Photo"
+        this.showStatus(`${name}: ${progress}`)
+      },
+      onComplete: (photoId) => {
+        const photo = getPhotoById(photoId)
+        // Photos in other albums are added when their album is switched to
+        if (!photo) return
+        this.addPhotoSplat(photo)
+        this.readySplatsCount++
+        this.updateSplatCount()
+      },
+      onRetry: (photoId, err, delay) => {
+        const name = getPhotoById(photoId)?.name ?? "Photo"
+        console.warn(`[App] ${name} failed (${err.message}), retrying`)
+        this.showStatus(`${name} failed, trying again in ${Math.round(delay / 1000)}s...`)
+      },
+      onChange: (jobs) => this.updateQueueStatus(jobs),
+    })
+
+    const waiting = getPhotos().filter(
+      (photo) =>
+        (photo.splatStatus === "pending" || photo.splatStatus === "processing") &&
+        !hasSplatJob(photo.id)
+    )
+    if (waiting.length > 0) await this.generateSplatsForPhotos(waiting)
+  }
+
+  /**
+   * Show how many photos are still converting, with a way to stop them
+   */
+  updateQueueStatus(jobs: SplatJob[]) {
+    const cancelBtn = document.getElementById("status-cancel")
+    if (cancelBtn) cancelBtn.style.display = jobs.length > 0 ? "block" : "none"
+
+    if (jobs.length > 0) {
+      this.isGeneratingSplats = true
+      const running = jobs.filter((job) => job.status === "running").length
+      this.showStatus(
+        `Converting ${jobs.length} photo(s) to 3D (${running} in progress)...`
+      )
+      return
+    }
+
+    if (!this.isGeneratingSplats) return
+    this.isGeneratingSplats = false
+    const failed = getPhotos().filter((photo) => photo.splatStatus === "failed").length
+    this.showStatus(
+      failed > 0
+        ? `${failed} photo(s) could not be converted to 3D`
+        : "All memories converted to 3D!",
+      false
+    )
+    setTimeout(() => this.hideStatus(), 3000)
+  }
+
+  /**
+   * Offer to retry the current album's failed photos, if it has any
+   */
+  updateRetryButton(photos: Photo[]) {
+    const retryBtn = document.getElementById("retry-failed-btn")
+    if (!retryBtn) return
+
+    const failed = photos.filter((photo) => photo.splatStatus === "failed").length
+    retryBtn.style.display = failed > 0 ? "inline-block" : "none"
+    retryBtn.textContent = `Retry failed (${failed})`
+  }
+
+  /**
+   * Show a photo's splat, cleaned up when the user saved a cleaned copy
+   */
+  addPhotoSplat(photo: Photo) {
+    if (!photo.splatUrl) return
+
+    if (photo.cleanedSplatUrl && photo.splatCleanup) {
+      this.canvas.addSplat(photo.id, photo.cleanedSplatUrl, {
+        plyUrl: photo.splatUrl,
+        cleanup: photo.splatCleanup,
+      })
+    } else {
+      this.canvas.addSplat(photo.id, photo.splatUrl)
+    }
+  }
+
   /**
    * Update splat count in status
    */
@@ -91,9 +225,8 @@ class App {
       try {
         const newPhotos = await addPhotosFromFiles(files)
 
-        // Reload visualization
-        const urls = getPhotoUrls()
-        await this.canvas.planes.reloadPhotos(urls)
+        // Add the new photos to the visualization
+        await this.canvas.planes.appendPhotos(newPhotos)
 
         this.showStatus(`Added ${newPhotos.length} photo(s)! Converting to 3D...`)
 
@@ -127,8 +260,10 @@ class App {
       this.showStatus("Loading album...")
 
       await switchAlbum(albumId)
-      const urls = getPhotoUrls()
-      await this.canvas.planes.reloadPhotos(urls)
+      await this.canvas.planes.setPhotos(getPhotos())
+      // Including splats that finished while another album was open
+      this.loadExistingSplats()
+      this.applyAlbumLayout()
 
       this.hideStatus()
     })
@@ -143,6 +278,67 @@ class App {
     })
   }
 
+  setupLayoutUI() {
+    const layoutSelect = document.getElementById("layout-select") as HTMLSelectElement
+    if (!layoutSelect) return
+
+    layoutSelect.innerHTML = LAYOUT_MODES
+      .map(l => `<option value="${l.mode}">${l.label}</option>`)
+      .join("")
+
+    layoutSelect.addEventListener("change", async (e) => {
+      const layout = (e.target as HTMLSelectElement).value as LayoutMode
+      this.canvas.planes.setLayout(layout)
+
+      const albumId = getCurrentAlbumId()
+      if (albumId) await updateAlbumLayout(albumId, layout)
+    })
+
+    this.applyAlbumLayout(false)
+
+    const fitSelect = document.getElementById("fit-select") as HTMLSelectElement
+    if (!fitSelect) return
+
+    fitSelect.value = this.canvas.planes.cardFit
+    fitSelect.addEventListener("change", (e) => {
+      const fit = (e.target as HTMLSelectElement).value as CardFit
+      this.canvas.planes.setCardFit(fit)
+    })
+
+    const densitySelect = document.getElementById("density-select") as HTMLSelectElement
+    if (densitySelect) {
+      densitySelect.value = this.canvas.planes.density.mode
+      densitySelect.addEventListener("change", (e) => {
+        const mode = (e.target as HTMLSelectElement).value as DensityOptions["mode"]
+        this.canvas.planes.setDensity({ mode })
+      })
+    }
+
+    const reshuffleBtn = document.getElementById("reshuffle-btn")
+    reshuffleBtn?.addEventListener("click", async () => {
+      const seed = randomSeed()
+      this.canvas.planes.setSeed(seed)
+
+      const albumId = getCurrentAlbumId()
+      if (albumId) await updateAlbumSeed(albumId, seed)
+    })
+  }
+
+  /**
+   * Restore the layout and arrangement saved on the current album
+   */
+  applyAlbumLayout(animate = true) {
+    const album = getCurrentAlbum()
+    const layout = album?.layout ?? "random"
+    if (album?.seed !== undefined) {
+      this.canvas.planes.setSeed(album.seed, animate)
+    }
+    this.canvas.planes.setLayout(layout, animate)
+
+    const layoutSelect = document.getElementById("layout-select") as HTMLSelectElement
+    if (layoutSelect) layoutSelect.value = layout
+  }
+
   updateAlbumSelector() {
     const albumSelector = document.getElementById("album-selector")
     const albumSelect = document.getElementById("album-select") as HTMLSelectElement
@@ -207,6 +403,27 @@ class App {
     window.addEventListener("wheel", hide)
   }
 
+  /**
+   * Switch between the photo gallery, the splat field and a single
+   * embedded splat
+   */
+  setupViewToggle() {
+    const viewSelect = document.getElementById("view-select") as HTMLSelectElement
+    if (!viewSelect) return
+
+    viewSelect.value = this.canvas.viewMode
+    viewSelect.addEventListener("change", (e) => {
+      const mode = (e.target as HTMLSelectElement).value as ViewMode
+      this.canvas.setViewMode(mode)
+
+      if (this.canvas.viewMode !== mode) {
+        viewSelect.value = this.canvas.viewMode
+        this.showStatus("No 3D memories yet", false)
+        setTimeout(() => this.hideStatus(), 3000)
+      }
+    })
+  }
+
   showStatus(text: string, showSpinner = true) {
     const statusBar = document.getElementById("status-bar")
     const statusText = document.getElementById("status-text")
@@ -228,39 +445,55 @@ class App {
     }
   }
 
+  /**
+   * Queue photos for conversion, they run as the queue has room
+   */
   async generateSplatsForPhotos(photos: Photo[]) {
-    if (this.isGeneratingSplats) return
-    this.isGeneratingSplats = true
-
-    for (const photo of photos) {
-      if (photo.splatStatus !== "pending") continue
-
-      try {
-        await updatePhotoSplatStatus(photo.id, "processing")
-        this.showStatus(`Converting "${photo.name}" to 3D...`)
+    const ids = photos
+      .filter((photo) => photo.splatStatus !== "ready")
+      .map((photo) => photo.id)
+
+    try {
+      await enqueueSplats(ids)
+    } catch (err) {
+      console.error("[App] Could not queue splat generation:", err)
+      this.showStatus("Failed to start converting to 3D", false)
+    }
+  }
 
-        const result = await sharpService.generateSplatFromBlob(
-          photo.blob,
-          photo.name,
-          (progress) => this.showStatus(`${photo.name}: ${progress}`)
-        )
+  /**
+   * Open the splat for a clicked photo card
+   */
+  openPhoto(photo?: Photo) {
+    // Demo cards have no photo behind them
+    if (!photo) return
 
-        await updatePhotoSplatStatus(photo.id, "ready", result.plyUrl)
-        console.log(`[App] Splat ready: ${result.plyUrl}`)
+    if (photo.splatStatus === "ready" && this.canvas.splatViewer?.hasSplat(photo.id)) {
+      this.canvas.openSplat(photo.id)
+      return
+    }
 
-        // Add to splat viewer
-        this.canvas.addSplat(photo.id, result.plyUrl)
-        this.readySplatsCount++
-        this.updateSplatCount()
-      } catch (err) {
-        console.error(`[App] Splat generation failed for ${photo.name}:`, err)
-        await updatePhotoSplatStatus(photo.id, "failed")
+    if (hasSplatJob(photo.id)) {
+      if (confirm(`"${photo.name}" is still being converted to 3D. Cancel it?`)) {
+        cancelSplatJob(photo.id)
       }
+      return
     }
 
-    this.isGeneratingSplats = false
-    this.showStatus("All memories converted to 3D!", false)
-
+    if (photo.splatStatus === "failed") {
+      const reason = photo.splatError ? `: ${photo.splatError}` : ""
+      if (confirm(`"${photo.name}" could not be converted to 3D${reason}. Try again?`)) {
+        this.generateSplatsForPhotos([photo])
+      }
+      return
+    } else if (photo.splatStatus === "cancelled") {
+      if (confirm(`Converting "${photo.name}" to 3D was cancelled. Start again?`)) {
+        this.generateSplatsForPhotos([photo])
+      }
+      return
+    } else {
+      this.showStatus(`"${photo.name}" is still being converted to 3D...`)
+    }
     setTimeout(() => this.hideStatus(), 3000)
   }
 
@@ -0,0 +1,201 @@
+/**
+ * Mock Provider - Offline stand-in for the Sharp API
+ *
+ * Turns the photo into a flat billboard of coloured Gaussians, one per
+ * pixel of a downscaled copy, placed where Sharp would put the photo in
+ * front of its camera. Jobs take a configurable time and can be made to
+ * fail, so the whole splat flow works without Modal or Supabase.
+ *
+ * Results are kept in the local splat store, under URLs the loader reads
+ * from there instead of fetching.
+ */
+
+import { LOCAL_SPLAT_PREFIX, saveLocalSplat } from './photoService'
+import {
+  SharpError,
+  SharpResult,
+  SplatInput,
+  SplatProvider,
+  SplatStage,
+  SplatStatus,
+} from './splatProvider'
+
+export interface MockSettings {
+  // ms from submit until the job completes
+  delay: number
+  // 0 to 1, share of jobs that fail
+  failureRate: number
+  // Fail like Modal does, or reject the submit like a server error
+  failureMode: 'job' | 'submit'
+}
+
+interface MockJob {
+  createdAt: number
+  ply: ArrayBuffer
+  fails: boolean
+  cancelled: boolean
+}
+
+export const mockSettings: MockSettings = {
+  delay: 3000,
+  failureRate: 0,
+  failureMode: 'job',
+}
+
+const MAX_SIDE = 160 // Gaussians along the photo's longer side
+const DEPTH = 2 // distance from the camera to the billboard
+const FOV = 50 // vertical field of view the photo is assumed to cover, in degrees
+// Share of the delay each stage takes, roughly as on Sharp
+const STAGE_SHARES: [SplatStage, number][] = [
+  ['queued', 0.2],
+  ['inferring', 0.65],
+  ['storing', 0.15],
+]
+// Zeroth order spherical harmonic, turns a colour into f_dc
+const SH_C0 = 0.28209479177387814
+const PROPERTIES = [
+  'x', 'y', 'z',
+  'nx', 'ny', 'nz',
+  'f_dc_0', 'f_dc_1', 'f_dc_2',
+  'opacity',
+  'scale_0', 'scale_1', 'scale_2',
+  'rot_0', 'rot_1', 'rot_2', 'rot_3',
+]
+
+const jobs: Map<string, MockJob> = new Map()
+
+export const mockProvider: SplatProvider = {
+  async submit(input, signal) {
+    if (Math.random() < mockSettings.failureRate && mockSettings.failureMode === 'submit') {
+      throw new SharpError('Sharp submit failed: mock server error', { status: 503 })
+    }
+
+    const ply = await createBillboardPly(await getImageBlob(input, signal))
+    signal?.throwIfAborted()
+
+    const requestId = `mock_${Date.now()}_${Math.random().toString(36).substring(7)}`
+    jobs.set(requestId, {
+      createdAt: Date.now(),
+      ply,
+      fails: mockSettings.failureMode === 'job' && Math.random() < mockSettings.failureRate,
+      cancelled: false,
+    })
+    console.log('[mockProvider] Submitted:', requestId)
+    return requestId
+  },
+
+  async status(requestId): Promise<SplatStatus> {
+    const job = jobs.get(requestId)
+    // Jobs only live as long as the page
+    if (!job) return { status: 'failed', error: 'Mock job lost, it ran in an earlier session' }
+    if (job.cancelled) return { status: 'cancelled' }
+
+    const elapsed = Date.now() - job.createdAt
+    if (elapsed < mockSettings.delay) {
+      const progress = elapsed / mockSettings.delay
+      let stageEnd = 0
+      for (const [stage, share] of STAGE_SHARES) {
+        stageEnd += share
+        if (progress < stageEnd) {
+          return { status: stage === 'queued' ? 'pending' : 'processing', stage, progress }
+        }
+      }
+    }
+    if (job.fails) return { status: 'failed', error: 'Modal failed: injected by mock provider' }
+    return { status: 'completed' }
+  },
+
+  async result(requestId): Promise<SharpResult> {
+    const job = jobs.get(requestId)
+    const { status } = await this.status(requestId)
+    if (!job || status !== 'completed') {
+      throw new SharpError(`Job not complete. Status: ${status}`, { status: 400, requestId })
+    }
+
+    const filename = `${requestId}.ply`
+    const plyUrl = `${LOCAL_SPLAT_PREFIX}${filename}`
+    await saveLocalSplat(plyUrl, job.ply)
+    jobs.delete(requestId)
+
+    return { plyUrl, filename, sizeBytes: job.ply.byteLength }
+  },
+
+  async cancel(requestId) {
+    const job = jobs.get(requestId)
+    if (job) job.cancelled = true
+  },
+}
+
+async function getImageBlob(input: SplatInput, signal?: AbortSignal): Promise<Blob> {
+  if ('blob' in input) return input.blob
+
+  const res = await fetch(input.imageUrl, { signal })
+  if (!res.ok) throw new SharpError(`Failed to fetch image: ${input.imageUrl}`, { status: 400 })
+  return res.blob()
+}
+
+/**
+ * Binary PLY with one flat, opaque Gaussian per pixel of the downscaled
+ * photo. Sharp's camera sits at the origin looking down +z with y
+ * pointing down the photo, so the billboard fills its view.
+ */
+async function createBillboardPly(blob: Blob): Promise<ArrayBuffer> {
+  const bitmap = await createImageBitmap(blob)
+  const scale = Math.min(1, MAX_SIDE / Math.max(bitmap.width, bitmap.height))
+  const width = Math.max(1, Math.round(bitmap.width * scale))
+  const height = Math.max(1, Math.round(bitmap.height * scale))
+
+  const canvas = new OffscreenCanvas(width, height)
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('2D canvas not supported')
+  ctx.drawImage(bitmap, 0, 0, width, height)
+  bitmap.close()
+  const pixels = ctx.getImageData(0, 0, width, height).data
+
+  const count = width * height
+  const header = new TextEncoder().encode(
+    [
+      'ply',
+      'format binary_little_endian 1.0',
+      `element vertex ${count}`,
+      ...PROPERTIES.map((name) => `property float ${name}`),
+      'end_header',
+      '',
+    ].join('\n')
+  )
+
+  const stride = PROPERTIES.length * 4
+  const buffer = new ArrayBuffer(header.length + count * stride)
+  new Uint8Array(buffer).set(header)
+  const view = new DataView(buffer, header.length)
+
+  const pixelSize = (2 * DEPTH * Math.tan((FOV * Math.PI) / 360)) / height
+  // Each Gaussian spans about its pixel, and is thin in depth
+  const logScale = Math.log(pixelSize * 0.6)
+  const logDepthScale = Math.log(pixelSize * 0.05)
+
+  for (let row = 0; row < height; row++) {
+    for (let column = 0; column < width; column++) {
+      const i = row * width + column
+      const alpha = Math.min(0.99, Math.max(0.01, pixels[i * 4 + 3] / 255))
+      const values = [
+        (column + 0.5 - width / 2) * pixelSize,
+        (row + 0.5 - height / 2) * pixelSize,
+        DEPTH,
+        0, 0, -1,
+        (pixels[i * 4] / 255 - 0.5) / SH_C0,
+        (pixels[i * 4 + 1] / 255 - 0.5) / SH_C0,
+        (pixels[i * 4 + 2] / 255 - 0.5) / SH_C0,
+        // Stored before the sigmoid
+        Math.log(alpha / (1 - alpha)),
+        logScale, logScale, logDepthScale,
+        1, 0, 0, 0,
+      ]
+      values.forEach((value, property) => {
+        view.setFloat32(i * stride + property * 4, value, true)
+      })
+    }
+  }
+
+  return buffer
+}
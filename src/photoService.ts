@@ -5,6 +5,12 @@
  * stores in IndexedDB for persistence, and tracks splat generation status.
  */
 
+import type { LayoutMode } from './layouts'
+import type { SplatStats } from './plyParser'
+import type { SplatCleanup } from './splatCleanup'
+import type { SplatJob } from './splatQueue'
+import { randomSeed } from './utils/random'
+
 export interface Photo {
   id: string
   name: string
@@ -13,15 +19,31 @@ export interface Photo {
   timestamp: number
   albumId: string
   splatUrl?: string
-  splatStatus?: 'pending' | 'processing' | 'ready' | 'failed'
+  splatStatus?: 'pending' | 'processing' | 'ready' | 'failed' | 'cancelled'
+  // Why the last generation failed, cleared once one succeeds
+  splatError?: string
+  // Photos submitted to Sharp so far, retries included
+  splatAttempts?: number
+  splatRequestId?: string
+  // Cleaned copy of the splat saved from the editor. splatUrl keeps
+  // pointing at the original so it can be restored.
+  cleanedSplat?: Blob
+  cleanedSplatUrl?: string
+  splatCleanup?: SplatCleanup
 }
 
+// A photo as kept in IndexedDB, without the URLs made for each session
+export type StoredPhoto = Omit<Photo, 'url' | 'cleanedSplatUrl'>
+
 export interface Album {
   id: string
   name: string
   photoCount: number
   coverUrl?: string
   createdAt: number
+  layout?: LayoutMode
+  // Seed for the gallery arrangement, so an album always opens the same way
+  seed?: number
 }
 
 // In-memory stores
@@ -33,9 +55,36 @@ let onAlbumsChangedCallback: ((albums: Album[]) => void) | null = null
 
 // IndexedDB
 const DB_NAME = 'memory-splat-db'
-const DB_VERSION = 2
+const DB_VERSION = 5
 const PHOTOS_STORE = 'photos'
 const ALBUMS_STORE = 'albums'
+// Splat generations waiting or running, one per photo
+const SPLAT_JOBS_STORE = 'splatJobs'
+// Downloaded splat files, and a small record per file to pick what to evict
+// without reading the files themselves
+const SPLAT_CACHE_STORE = 'splatCache'
+const SPLAT_CACHE_META_STORE = 'splatCacheMeta'
+const SPLAT_CACHE_MAX_BYTES = 512 * 1024 * 1024
+// Splats made in the browser, which have nowhere to be downloaded from
+// again, so they are kept apart from the cache and never evicted
+const LOCAL_SPLATS_STORE = 'localSplats'
+
+// URLs of splats in the local store
+export const LOCAL_SPLAT_PREFIX = '/local-splats/'
+
+export interface CachedSplat {
+  data: ArrayBuffer
+  // Compact copies keep what was measured from their PLY. Stats come back
+  // as plain objects, see reviveStats.
+  stats?: SplatStats | null
+  originalSize?: number
+}
+
+interface SplatCacheMeta {
+  url: string
+  size: number
+  lastAccessed: number
+}
 
 async function openDB(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
@@ -53,11 +102,24 @@ async function openDB(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains(ALBUMS_STORE)) {
         db.createObjectStore(ALBUMS_STORE, { keyPath: 'id' })
       }
+      if (!db.objectStoreNames.contains(SPLAT_CACHE_STORE)) {
+        db.createObjectStore(SPLAT_CACHE_STORE, { keyPath: 'url' })
+      }
+      if (!db.objectStoreNames.contains(SPLAT_CACHE_META_STORE)) {
+        const store = db.createObjectStore(SPLAT_CACHE_META_STORE, { keyPath: 'url' })
+        store.createIndex('lastAccessed', 'lastAccessed', { unique: false })
+      }
+      if (!db.objectStoreNames.contains(SPLAT_JOBS_STORE)) {
+        db.createObjectStore(SPLAT_JOBS_STORE, { keyPath: 'photoId' })
+      }
+      if (!db.objectStoreNames.contains(LOCAL_SPLATS_STORE)) {
+        db.createObjectStore(LOCAL_SPLATS_STORE, { keyPath: 'url' })
+      }
     }
   })
 }
 
-async function savePhotoToDB(photo: Photo): Promise<void> {
+async function savePhotoToDB(photo: StoredPhoto): Promise<void> {
   const db = await openDB()
   return new Promise((resolve, reject) => {
     const tx = db.transaction(PHOTOS_STORE, 'readwrite')
@@ -71,6 +133,11 @@ async function savePhotoToDB(photo: Photo): Promise<void> {
       albumId: photo.albumId,
       splatUrl: photo.splatUrl,
       splatStatus: photo.splatStatus,
+      splatError: photo.splatError,
+      splatAttempts: photo.splatAttempts,
+      splatRequestId: photo.splatRequestId,
+      cleanedSplat: photo.cleanedSplat,
+      splatCleanup: photo.splatCleanup,
     }
 
     const request = store.put(photoData)
@@ -106,16 +173,32 @@ async function loadPhotosFromDB(albumId?: string): Promise<Photo[]> {
     }
 
     request.onerror = () => reject(request.error)
-    request.onsuccess = () => {
-      const storedPhotos = request.result.map((data: any) => ({
-        ...data,
-        url: URL.createObjectURL(data.blob),
-      }))
-      resolve(storedPhotos)
-    }
+    request.onsuccess = () => resolve(request.result.map(revivePhoto))
+  })
+}
+
+async function loadPhotoFromDB(photoId: string): Promise<StoredPhoto | undefined> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(PHOTOS_STORE, 'readonly')
+    const request = tx.objectStore(PHOTOS_STORE).get(photoId)
+
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve(request.result)
   })
 }
 
+// Stored photos keep their files as blobs, URLs are made per session
+function revivePhoto(data: any): Photo {
+  return {
+    ...data,
+    url: URL.createObjectURL(data.blob),
+    cleanedSplatUrl: data.cleanedSplat
+      ? URL.createObjectURL(data.cleanedSplat)
+      : undefined,
+  }
+}
+
 async function loadAlbumsFromDB(): Promise<Album[]> {
   const db = await openDB()
   return new Promise((resolve, reject) => {
@@ -128,6 +211,163 @@ async function loadAlbumsFromDB(): Promise<Album[]> {
   })
 }
 
+/**
+ * Read a cached splat file, marking it as recently used.
+ * Resolves null when the file was never cached or has been evicted.
+ */
+export async function getCachedSplat(url: string): Promise<CachedSplat | null> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([SPLAT_CACHE_STORE, SPLAT_CACHE_META_STORE], 'readwrite')
+    const metaStore = tx.objectStore(SPLAT_CACHE_META_STORE)
+    let entry: CachedSplat | null = null
+
+    const request = tx.objectStore(SPLAT_CACHE_STORE).get(url)
+    request.onsuccess = () => {
+      if (!request.result) return
+      const { data, stats, originalSize } = request.result
+      entry = { data, stats, originalSize }
+
+      const meta: SplatCacheMeta = {
+        url,
+        size: data.byteLength,
+        lastAccessed: Date.now(),
+      }
+      metaStore.put(meta)
+    }
+
+    tx.oncomplete = () => resolve(entry)
+    tx.onerror = () => reject(tx.error)
+  })
+}
+
+/**
+ * Cache a splat file, evicting the least recently used files once the
+ * cache grows past its size cap
+ */
+export async function cacheSplat(
+  url: string,
+  data: ArrayBuffer,
+  extra: Omit<CachedSplat, 'data'> = {}
+): Promise<void> {
+  // A single file larger than the whole cache is not worth keeping
+  if (data.byteLength > SPLAT_CACHE_MAX_BYTES) return
+
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([SPLAT_CACHE_STORE, SPLAT_CACHE_META_STORE], 'readwrite')
+    const dataStore = tx.objectStore(SPLAT_CACHE_STORE)
+    const metaStore = tx.objectStore(SPLAT_CACHE_META_STORE)
+
+    dataStore.put({ url, data, ...extra })
+    const meta: SplatCacheMeta = { url, size: data.byteLength, lastAccessed: Date.now() }
+    metaStore.put(meta)
+
+    // Oldest first
+    const request = metaStore.index('lastAccessed').getAll()
+    request.onsuccess = () => {
+      const entries = request.result as SplatCacheMeta[]
+      let total = entries.reduce((sum, entry) => sum + entry.size, 0)
+
+      for (const entry of entries) {
+        if (total <= SPLAT_CACHE_MAX_BYTES) break
+        if (entry.url === url) continue
+        dataStore.delete(entry.url)
+        metaStore.delete(entry.url)
+        total -= entry.size
+      }
+    }
+
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+  })
+}
+
+/**
+ * Mark a cached file as recently used without reading it
+ */
+export async function touchCachedSplat(url: string): Promise<void> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(SPLAT_CACHE_META_STORE, 'readwrite')
+    const metaStore = tx.objectStore(SPLAT_CACHE_META_STORE)
+
+    const request = metaStore.get(url)
+    request.onsuccess = () => {
+      const meta = request.result as SplatCacheMeta | undefined
+      if (meta) metaStore.put({ ...meta, lastAccessed: Date.now() })
+    }
+
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+  })
+}
+
+/**
+ * Keep a splat made in the browser under a URL starting with
+ * LOCAL_SPLAT_PREFIX
+ */
+export async function saveLocalSplat(url: string, data: ArrayBuffer): Promise<void> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(LOCAL_SPLATS_STORE, 'readwrite')
+    const request = tx.objectStore(LOCAL_SPLATS_STORE).put({ url, data })
+
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve()
+  })
+}
+
+/**
+ * Resolves null when no splat was kept under the URL
+ */
+export async function getLocalSplat(url: string): Promise<ArrayBuffer | null> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(LOCAL_SPLATS_STORE, 'readonly')
+    const request = tx.objectStore(LOCAL_SPLATS_STORE).get(url)
+
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve(request.result?.data ?? null)
+  })
+}
+
+/**
+ * Read every stored splat job
+ */
+export async function loadSplatJobs(): Promise<SplatJob[]> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(SPLAT_JOBS_STORE, 'readonly')
+    const request = tx.objectStore(SPLAT_JOBS_STORE).getAll()
+
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve(request.result)
+  })
+}
+
+export async function saveSplatJob(job: SplatJob): Promise<void> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(SPLAT_JOBS_STORE, 'readwrite')
+    const request = tx.objectStore(SPLAT_JOBS_STORE).put(job)
+
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve()
+  })
+}
+
+export async function deleteSplatJob(photoId: string): Promise<void> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(SPLAT_JOBS_STORE, 'readwrite')
+    const request = tx.objectStore(SPLAT_JOBS_STORE).delete(photoId)
+
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve()
+  })
+}
+
 /**
  * Initialize the photo service
  */
@@ -143,11 +383,20 @@ export async function initPhotoService(): Promise<{ photos: Photo[]; albums: Alb
       name: 'All Memories',
       photoCount: 0,
       createdAt: Date.now(),
+      seed: randomSeed(),
     }
     albums.push(defaultAlbum)
     await saveAlbumToDB(defaultAlbum)
   }
 
+  // Albums saved before layouts were seeded get their seed now
+  for (const album of albums) {
+    if (album.seed === undefined) {
+      album.seed = randomSeed()
+      await saveAlbumToDB(album)
+    }
+  }
+
   // Load photos from first album
   currentAlbumId = albums[0].id
   const storedPhotos = await loadPhotosFromDB(currentAlbumId)
@@ -166,6 +415,7 @@ export async function createAlbum(name: string): Promise<Album> {
     name,
     photoCount: 0,
     createdAt: Date.now(),
+    seed: randomSeed(),
   }
 
   albums.push(album)
@@ -269,14 +519,55 @@ export function getCurrentAlbumId(): string | null {
 }
 
 /**
- * Update a photo's splat status
+ * Get the current album
+ */
+export function getCurrentAlbum(): Album | undefined {
+  return albums.find(a => a.id === currentAlbumId)
+}
+
+/**
+ * Remember which gallery layout an album was last viewed in
+ */
+export async function updateAlbumLayout(
+  albumId: string,
+  layout: LayoutMode
+): Promise<void> {
+  const album = albums.find(a => a.id === albumId)
+  if (!album) return
+
+  album.layout = layout
+  await saveAlbumToDB(album)
+
+  if (onAlbumsChangedCallback) {
+    onAlbumsChangedCallback([...albums])
+  }
+}
+
+/**
+ * Store a new arrangement seed for an album
+ */
+export async function updateAlbumSeed(albumId: string, seed: number): Promise<void> {
+  const album = albums.find(a => a.id === albumId)
+  if (!album) return
+
+  album.seed = seed
+  await saveAlbumToDB(album)
+
+  if (onAlbumsChangedCallback) {
+    onAlbumsChangedCallback([...albums])
+  }
+}
+
+/**
+ * Update a photo's splat status. Photos outside the current album are
+ * updated in storage.
  */
 export async function updatePhotoSplatStatus(
   photoId: string,
   status: Photo['splatStatus'],
   splatUrl?: string
 ): Promise<void> {
-  const photo = photos.find(p => p.id === photoId)
+  const photo = await getStoredPhoto(photoId)
   if (!photo) return
 
   photo.splatStatus = status
@@ -291,6 +582,57 @@ export async function updatePhotoSplatStatus(
   }
 }
 
+/**
+ * Record a photo's latest generation attempt
+ */
+export async function updatePhotoSplatAttempt(
+  photoId: string,
+  attempt: Pick<Photo, 'splatError' | 'splatAttempts' | 'splatRequestId'>
+): Promise<void> {
+  const photo = await getStoredPhoto(photoId)
+  if (!photo) return
+
+  Object.assign(photo, attempt)
+  await savePhotoToDB(photo)
+}
+
+/**
+ * Link a cleaned splat to a photo, replacing any earlier cleaned copy.
+ * Resolves with the URL to load the cleaned splat from.
+ */
+export async function saveCleanedSplat(
+  photoId: string,
+  data: ArrayBuffer,
+  cleanup: SplatCleanup
+): Promise<string> {
+  const photo = photos.find(p => p.id === photoId)
+  if (!photo) throw new Error(`Unknown photo: ${photoId}`)
+
+  if (photo.cleanedSplatUrl) URL.revokeObjectURL(photo.cleanedSplatUrl)
+  photo.cleanedSplat = new Blob([data], { type: 'application/octet-stream' })
+  photo.cleanedSplatUrl = URL.createObjectURL(photo.cleanedSplat)
+  photo.splatCleanup = cleanup
+
+  await savePhotoToDB(photo)
+  return photo.cleanedSplatUrl
+}
+
+/**
+ * Drop a photo's cleaned splat, resolving with the original's URL
+ */
+export async function restoreOriginalSplat(photoId: string): Promise<string> {
+  const photo = photos.find(p => p.id === photoId)
+  if (!photo?.splatUrl) throw new Error(`No original splat for photo: ${photoId}`)
+
+  if (photo.cleanedSplatUrl) URL.revokeObjectURL(photo.cleanedSplatUrl)
+  photo.cleanedSplat = undefined
+  photo.cleanedSplatUrl = undefined
+  photo.splatCleanup = undefined
+
+  await savePhotoToDB(photo)
+  return photo.splatUrl
+}
+
 /**
  * Get photo by ID
  */
@@ -298,6 +640,15 @@ export function getPhotoById(photoId: string): Photo | undefined {
   return photos.find(p => p.id === photoId)
 }
 
+/**
+ * Get a photo from any album, reading it from storage when it isn't in
+ * the current one. Stored photos come without URLs, which are only made
+ * for photos on display.
+ */
+export async function getStoredPhoto(photoId: string): Promise<StoredPhoto | undefined> {
+  return getPhotoById(photoId) ?? loadPhotoFromDB(photoId)
+}
+
 /**
  * Subscribe to photo changes
  */
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest"
+import { DensityOptions, getCardCapacity, getCardCount } from "./planes"
+
+const density: DensityOptions = {
+  mode: "unique",
+  targetCards: 400,
+  maxCopiesPerPhoto: 16,
+  maxCards: 2000,
+}
+
+describe("card count", () => {
+  it("shows every photo of an album larger than maxCards", () => {
+    const imageCount = 2345
+    const maxCards = getCardCapacity(imageCount, density.maxCards)
+
+    expect(maxCards).toBeGreaterThanOrEqual(imageCount)
+    expect(getCardCount(imageCount, { ...density, maxCards })).toBe(imageCount)
+    expect(
+      getCardCount(imageCount, { ...density, mode: "repeat", maxCards })
+    ).toBeGreaterThanOrEqual(imageCount)
+  })
+
+  it("keeps maxCards while the photos fit", () => {
+    expect(getCardCapacity(1500, 2000)).toBe(2000)
+    expect(getCardCount(1500, density)).toBe(1500)
+  })
+})
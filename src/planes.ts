@@ -3,24 +3,56 @@ import vertexShader from "./shaders/vertex.glsl"
 import fragmentShader from "./shaders/fragment.glsl"
 import { Size } from "./types/types"
 import normalizeWheel from "normalize-wheel"
-import { getPhotoUrls, getDemoPhotoUrls, Photo } from "./photoService"
+import { getPhotoUrls, getPhotos, getDemoPhotoUrls, Photo } from "./photoService"
+import AtlasBuilder from "./atlasBuilder"
+import { AtlasEntry } from "./textureAtlas"
+import { computeLayout, LayoutMode } from "./layouts"
+import gsap from "gsap"
+import { createRandom, randomSeed } from "./utils/random"
 
 interface Props {
   scene: THREE.Scene
   sizes: Size
+  maxTextureSize?: number
   onPlaneClick?: (index: number, photo?: Photo) => void
 }
 
-interface ImageInfo {
-  width: number
-  height: number
-  aspectRatio: number
-  uvs: {
-    xStart: number
-    xEnd: number
-    yStart: number
-    yEnd: number
-  }
+// Must match the constants in vertex.glsl / fragment.glsl
+const MIN_Z = -30
+const MAX_Z = 12
+const LAYOUT_MAX_Z = 7 // front of the field, leaves room before the wrap
+const SPEED_SEED_SALT = 0x9e3779b9 // keeps drift speeds independent of positions
+const CARD_HALF_SIZE = 0.9 // boxSize (0.45 uv) * geometry scale (2)
+const CARD_CORNER_RADIUS = 0.16 // cornerRadius (0.08 uv) * geometry scale (2)
+const CLICK_THRESHOLD = 6 // px a pointer may travel and still count as a click
+const CAPACITY_STEP = 500 // cards added at a time when an album outgrows maxCards
+
+// Must match the STATUS_* constants in fragment.glsl
+const SPLAT_STATUS_CODES: Record<NonNullable<Photo["splatStatus"]>, number> = {
+  pending: 0,
+  processing: 1,
+  ready: 2,
+  failed: 3,
+  // Looks the same as a photo still waiting
+  cancelled: 0,
+}
+
+type ImageInfo = AtlasEntry
+
+// "cover" crops photos into square cards, "contain" gives each card its
+// photo's shape
+export type CardFit = "cover" | "contain"
+
+export interface DensityOptions {
+  // "repeat" shows each photo on several cards, "unique" on exactly one
+  mode: "repeat" | "unique"
+  // Number of cards a repeating field aims for
+  targetCards: number
+  // Never show one photo on more cards than this
+  maxCopiesPerPhoto: number
+  // Cap on instances, sizes the GPU buffers. Grows for albums with more
+  // photos than this, see getCardCapacity
+  maxCards: number
 }
 
 export default class Planes {
@@ -28,7 +60,14 @@ export default class Planes {
   geometry: THREE.PlaneGeometry
   material: THREE.ShaderMaterial
   mesh: THREE.InstancedMesh
-  meshCount: number = 400
+  // Cards currently drawn, at most density.maxCards
+  meshCount: number = 0
+  density: DensityOptions = {
+    mode: "repeat",
+    targetCards: 400,
+    maxCopiesPerPhoto: 16,
+    maxCards: 2000,
+  }
   sizes: Size
   drag: {
     xCurrent: number
@@ -67,15 +106,28 @@ export default class Planes {
   dragSensitivity: number = 1
   dragDamping: number = 0.1
   dragElement?: HTMLElement
+  // Off while another view owns pointer and wheel input
+  isInteractive: boolean = true
   imageInfos: ImageInfo[] = []
-  atlasTexture: THREE.Texture | null = null
-  blurryAtlasTexture: THREE.Texture | null = null
+  atlas: AtlasBuilder | null = null
+  maxTextureSize?: number
+  atlasTexture: THREE.DataArrayTexture | null = null
+  blurryAtlasTexture: THREE.DataArrayTexture | null = null
   onPlaneClick?: (index: number, photo?: Photo) => void
   photoUrls: string[] = []
+  photos: Photo[] = []
+  // Index into imageInfos for every instance, -1 while unassigned
+  instanceImages: Int32Array = new Int32Array(this.density.maxCards).fill(-1)
+  updateQueue: Promise<void> = Promise.resolve()
+  layout: LayoutMode = "random"
+  cardFit: CardFit = "cover"
+  seed: number = randomSeed()
+  layoutTween: gsap.core.Tween | null = null
 
-  constructor({ scene, sizes, onPlaneClick }: Props) {
+  constructor({ scene, sizes, maxTextureSize, onPlaneClick }: Props) {
     this.scene = scene
     this.sizes = sizes
+    this.maxTextureSize = maxTextureSize
     this.onPlaneClick = onPlaneClick
 
     this.shaderParameters = {
@@ -100,114 +152,215 @@ export default class Planes {
   async loadPhotos() {
     // Try to get user photos, fall back to demo
     let urls = getPhotoUrls()
+    const photos = urls.length > 0 ? getPhotos() : undefined
     if (urls.length === 0) {
       urls = getDemoPhotoUrls()
     }
-    this.photoUrls = urls
-    await this.loadTextureAtlas(urls)
-    this.createBlurryAtlas()
-    this.fillMeshData()
+    await this.enqueue(async () => {
+      this.atlas = new AtlasBuilder({ maxTextureSize: this.maxTextureSize })
+      this.fillMeshData()
+      await this.appendImages(urls, photos)
+    })
   }
 
   /**
-   * Reload photos (called when user adds new photos)
+   * Reload photos, rebuilding the atlas from scratch.
+   * Card positions are kept, only the images on them change.
    */
   async reloadPhotos(urls?: string[]) {
-    this.photoUrls = urls || getPhotoUrls()
-    if (this.photoUrls.length === 0) {
-      this.photoUrls = getDemoPhotoUrls()
-    }
-    await this.loadTextureAtlas(this.photoUrls)
-    this.createBlurryAtlas()
-    this.fillMeshData()
+    await this.enqueue(async () => {
+      let photoUrls = urls || getPhotoUrls()
+      const photos = photoUrls.length > 0 ? getPhotos() : undefined
+      if (photoUrls.length === 0) {
+        photoUrls = getDemoPhotoUrls()
+      }
+
+      await this.atlas!.reset()
+      this.imageInfos = []
+      this.photoUrls = []
+      this.photos = []
+      this.instanceImages.fill(-1)
+      await this.appendImages(photoUrls, photos)
+    })
   }
 
-  async loadTextureAtlas(urls: string[]) {
-    // Load all images
-    const imagePromises = urls.map(async (path) => {
-      try {
-        const res = await fetch(path, { mode: "cors" })
-        if (!res.ok) throw new Error(`Failed to fetch image: ${path}`)
-        const blob = await res.blob()
-        const bitmap = await createImageBitmap(blob)
-        return bitmap as CanvasImageSource
-      } catch (err) {
-        return await new Promise<CanvasImageSource>((resolve, reject) => {
-          const img = new Image()
-          img.crossOrigin = "anonymous"
-          img.onload = () => resolve(img)
-          img.onerror = (e) => reject(e)
-          img.src = path
-        })
+  /**
+   * Add photos to the gallery, drawing only the new images into the atlas
+   */
+  async appendPhotos(photos: Photo[]) {
+    await this.enqueue(async () => {
+      const known = new Set(this.photos.map((p) => p.id))
+      const fresh = photos.filter((p) => !known.has(p.id))
+      if (fresh.length === 0) return
+
+      // Real photos replace the demo covers
+      if (this.photos.length === 0) {
+        this.removeImages(this.imageInfos.map((_, i) => i))
       }
+
+      await this.appendImages(
+        fresh.map((p) => p.url),
+        fresh
+      )
     })
+  }
 
-    const images = await Promise.all(imagePromises)
+  /**
+   * Remove photos from the gallery, freeing their atlas slots
+   */
+  async removePhotos(photoIds: string[]) {
+    await this.enqueue(async () => {
+      const ids = new Set(photoIds)
+      const indices = this.photos
+        .map((p, i) => (ids.has(p.id) ? i : -1))
+        .filter((i) => i !== -1)
+      if (indices.length === 0) return
 
-    // Calculate atlas dimensions
-    const atlasWidth = Math.max(
-      ...images.map((img: any) => img.width as number)
-    )
-    let totalHeight = 0
+      this.removeImages(indices)
 
-    images.forEach((img: any) => {
-      totalHeight += img.height as number
+      // Fall back to the demo covers once the last photo is gone
+      if (this.imageInfos.length === 0) {
+        await this.appendImages(getDemoPhotoUrls())
+      }
     })
+  }
 
-    // Create canvas
-    const canvas = document.createElement("canvas")
-    canvas.width = atlasWidth
-    canvas.height = totalHeight
-    const ctx = canvas.getContext("2d")!
-
-    // Draw images and calculate UVs
-    let currentY = 0
-    this.imageInfos = images.map((img: any) => {
-      const aspectRatio = (img.width as number) / (img.height as number)
-
-      ctx.drawImage(img as any, 0, currentY)
-
-      const info = {
-        width: img.width,
-        height: img.height,
-        aspectRatio,
-        uvs: {
-          xStart: 0,
-          xEnd: (img.width as number) / atlasWidth,
-          yStart: 1 - currentY / totalHeight,
-          yEnd: 1 - (currentY + (img.height as number)) / totalHeight,
-        },
+  /**
+   * Show exactly this set of photos, e.g. after switching albums.
+   * Photos already on screen keep their slots and cards.
+   */
+  async setPhotos(photos: Photo[]) {
+    await this.enqueue(async () => {
+      const isDemo = this.photos.length === 0
+
+      if (photos.length === 0) {
+        if (isDemo) return
+        this.removeImages(this.imageInfos.map((_, i) => i))
+        await this.appendImages(getDemoPhotoUrls())
+        return
       }
 
-      currentY += img.height as number
-      return info
+      const ids = new Set(photos.map((p) => p.id))
+      const stale = this.imageInfos
+        .map((_, i) => (isDemo || !ids.has(this.photos[i].id) ? i : -1))
+        .filter((i) => i !== -1)
+      this.removeImages(stale)
+
+      const known = new Set(this.photos.map((p) => p.id))
+      const fresh = photos.filter((p) => !known.has(p.id))
+      if (fresh.length > 0) {
+        await this.appendImages(
+          fresh.map((p) => p.url),
+          fresh
+        )
+      } else {
+        this.updateTextureCoords()
+        this.updateSplatStatuses()
+      }
     })
+  }
 
-    // Create texture
-    this.atlasTexture = new THREE.Texture(canvas)
-    this.atlasTexture.wrapS = THREE.ClampToEdgeWrapping
-    this.atlasTexture.wrapT = THREE.ClampToEdgeWrapping
-    this.atlasTexture.minFilter = THREE.LinearFilter
-    this.atlasTexture.magFilter = THREE.LinearFilter
-    this.atlasTexture.needsUpdate = true
-    this.material.uniforms.uAtlas.value = this.atlasTexture
+  /**
+   * Run atlas mutations one after another so overlapping uploads and
+   * album switches can't interleave
+   */
+  enqueue(task: () => Promise<void>) {
+    const run = this.updateQueue.then(task)
+    this.updateQueue = run.catch((err) => {
+      console.error("[Planes] Photo update failed:", err)
+    })
+    return run
   }
 
-  createBlurryAtlas() {
-    if (!this.atlasTexture) return
-
-    const blurryCanvas = document.createElement("canvas")
-    blurryCanvas.width = this.atlasTexture.image.width
-    blurryCanvas.height = this.atlasTexture.image.height
-    const ctx = blurryCanvas.getContext("2d")!
-    ctx.filter = "blur(100px)"
-    ctx.drawImage(this.atlasTexture.image, 0, 0)
-    this.blurryAtlasTexture = new THREE.Texture(blurryCanvas)
-    this.blurryAtlasTexture.wrapS = THREE.ClampToEdgeWrapping
-    this.blurryAtlasTexture.wrapT = THREE.ClampToEdgeWrapping
-    this.blurryAtlasTexture.minFilter = THREE.LinearFilter
-    this.blurryAtlasTexture.magFilter = THREE.LinearFilter
-    this.blurryAtlasTexture.needsUpdate = true
+  /**
+   * Show placeholder cards for new images straight away, then swap in the
+   * real images once the atlas worker has drawn them
+   */
+  async appendImages(urls: string[], photos?: Photo[]) {
+    const start = this.imageInfos.length
+    urls.forEach((url, i) => {
+      this.imageInfos.push(createPlaceholder())
+      this.photoUrls.push(url)
+      if (photos) this.photos.push(photos[i])
+    })
+
+    this.updateTextureCoords(this.updateMeshCount())
+    this.updateSplatStatuses()
+    this.refreshLayout()
+
+    let entries: (AtlasEntry | null)[]
+    try {
+      entries = await this.atlas!.add(urls)
+    } catch (err) {
+      this.removeImages(urls.map((_, i) => start + i))
+      throw err
+    }
+
+    entries.forEach((entry, i) => {
+      if (entry) this.imageInfos[start + i] = entry
+    })
+    this.commitAtlas()
+
+    // Images that didn't decode are dropped, their cards still hold
+    // placeholders
+    const failed = entries
+      .map((entry, i) => (entry ? -1 : start + i))
+      .filter((i) => i !== -1)
+    if (failed.length > 0) {
+      this.removeImages(failed)
+    } else {
+      this.updateTextureCoords()
+    }
+  }
+
+  removeImages(indices: number[]) {
+    if (indices.length === 0) return
+
+    const removed = new Set(indices)
+    const remap = new Int32Array(this.imageInfos.length)
+    let next = 0
+    for (let i = 0; i < this.imageInfos.length; i++) {
+      if (removed.has(i)) {
+        remap[i] = -1
+      } else {
+        remap[i] = next++
+      }
+    }
+
+    this.atlas?.remove(this.imageInfos.filter((_, i) => removed.has(i)))
+    this.imageInfos = this.imageInfos.filter((_, i) => !removed.has(i))
+    this.photoUrls = this.photoUrls.filter((_, i) => !removed.has(i))
+    this.photos = this.photos.filter((_, i) => !removed.has(i))
+
+    for (let i = 0; i < this.meshCount; i++) {
+      const image = this.instanceImages[i]
+      if (image >= 0) this.instanceImages[i] = remap[image]
+    }
+
+    this.updateTextureCoords(this.updateMeshCount())
+    this.updateSplatStatuses()
+    this.refreshLayout()
+  }
+
+  /**
+   * Ordered layouts depend on which image sits on which card, so re-run
+   * them after the photo set changes. The random field stays put.
+   */
+  refreshLayout() {
+    if (this.layout === "random") return
+    this.applyLayout()
+  }
+
+  /**
+   * Point the shader at the atlas textures, which are replaced whenever
+   * the atlas grows a page
+   */
+  commitAtlas() {
+    if (!this.atlas) return
+
+    this.atlasTexture = this.atlas.texture
+    this.blurryAtlasTexture = this.atlas.blurryTexture
+    this.material.uniforms.uAtlas.value = this.atlasTexture
     this.material.uniforms.uBlurryAtlas.value = this.blurryAtlasTexture
   }
 
@@ -218,6 +371,7 @@ export default class Planes {
       transparent: true,
       uniforms: {
         uTime: { value: 0 },
+        uDriftTime: { value: 0 },
         uMaxXdisplacement: {
           value: new THREE.Vector2(
             this.shaderParameters.maxX,
@@ -233,6 +387,11 @@ export default class Planes {
         uScrollY: { value: 0 },
         uSpeedY: { value: 0 },
         uDrag: { value: new THREE.Vector2(0, 0) },
+        uFocalDistance: { value: 10 },
+        uAperture: { value: 0.04 },
+        uMotionBlur: { value: 0.15 },
+        uFocusInstance: { value: -1 },
+        uFocusFade: { value: 1 },
       },
     })
   }
@@ -241,52 +400,426 @@ export default class Planes {
     this.mesh = new THREE.InstancedMesh(
       this.geometry,
       this.material,
-      this.meshCount
+      this.density.maxCards
     )
+    this.mesh.count = this.meshCount
     this.scene.add(this.mesh)
   }
 
   fillMeshData() {
-    const initialPosition = new Float32Array(this.meshCount * 3)
-    const meshSpeed = new Float32Array(this.meshCount)
-    const aTextureCoords = new Float32Array(this.meshCount * 4)
-
-    for (let i = 0; i < this.meshCount; i++) {
-      initialPosition[i * 3 + 0] =
-        (Math.random() - 0.5) * this.shaderParameters.maxX * 2
-      initialPosition[i * 3 + 1] =
-        (Math.random() - 0.5) * this.shaderParameters.maxY * 2
-      initialPosition[i * 3 + 2] = Math.random() * (7 - -30) - 30
-
-      meshSpeed[i] = Math.random() * 0.5 + 0.5
-
-      const imageIndex = i % this.imageInfos.length
-
-      aTextureCoords[i * 4 + 0] = this.imageInfos[imageIndex].uvs.xStart
-      aTextureCoords[i * 4 + 1] = this.imageInfos[imageIndex].uvs.xEnd
-      aTextureCoords[i * 4 + 2] = this.imageInfos[imageIndex].uvs.yStart
-      aTextureCoords[i * 4 + 3] = this.imageInfos[imageIndex].uvs.yEnd
-    }
+    const capacity = this.density.maxCards
 
     this.geometry.setAttribute(
       "aInitialPosition",
-      new THREE.InstancedBufferAttribute(initialPosition, 3)
+      new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3)
     )
     this.geometry.setAttribute(
       "aMeshSpeed",
-      new THREE.InstancedBufferAttribute(meshSpeed, 1)
+      new THREE.InstancedBufferAttribute(new Float32Array(capacity), 1)
     )
+    this.fillMeshSpeeds()
 
     this.mesh.geometry.setAttribute(
       "aTextureCoords",
-      new THREE.InstancedBufferAttribute(aTextureCoords, 4)
+      new THREE.InstancedBufferAttribute(new Float32Array(capacity * 4), 4)
+    )
+    this.mesh.geometry.setAttribute(
+      "aScale",
+      new THREE.InstancedBufferAttribute(
+        new Float32Array(capacity * 2).fill(1),
+        2
+      )
+    )
+    this.mesh.geometry.setAttribute(
+      "aSplatStatus",
+      new THREE.InstancedBufferAttribute(new Float32Array(capacity), 1)
+    )
+    this.mesh.geometry.setAttribute(
+      "aHidden",
+      new THREE.InstancedBufferAttribute(new Float32Array(capacity), 1)
     )
+
+    this.instanceImages.fill(-1)
+    this.setMeshCount(this.getTargetCount())
+    this.rebalanceInstances()
+    this.updateTextureCoords()
+    this.updateSplatStatuses()
+    this.applyLayout(false)
+  }
+
+  fillMeshSpeeds() {
+    const attribute = this.geometry.getAttribute(
+      "aMeshSpeed"
+    ) as THREE.InstancedBufferAttribute
+    const meshSpeed = attribute.array as Float32Array
+    const random = createRandom(this.seed ^ SPEED_SEED_SALT)
+
+    // Fill every slot so cards added later already have their speed
+    for (let i = 0; i < meshSpeed.length; i++) {
+      meshSpeed[i] = random() * 0.5 + 0.5
+    }
+
+    attribute.needsUpdate = true
+  }
+
+  /**
+   * Rebuild the arrangement from a new seed, the same seed always gives
+   * the same arrangement for the same photos
+   */
+  setSeed(seed: number, animate = true) {
+    if (seed === this.seed) return
+    this.seed = seed
+    // Before the first load fillMeshData picks the seed up
+    if (!this.geometry.getAttribute("aInitialPosition")) return
+
+    this.bakeDrift()
+    this.fillMeshSpeeds()
+    this.applyLayout(animate)
+  }
+
+  /**
+   * Switch layout, animating every card from where it is now
+   */
+  setLayout(mode: LayoutMode, animate = true) {
+    if (mode === this.layout) return
+    this.layout = mode
+    // Before the first load fillMeshData picks the layout up
+    if (!this.geometry.getAttribute("aInitialPosition")) return
+    this.applyLayout(animate)
+  }
+
+  applyLayout(animate = true) {
+    const attribute = this.geometry.getAttribute(
+      "aInitialPosition"
+    ) as THREE.InstancedBufferAttribute
+    if (!attribute) return
+
+    const positions = attribute.array as Float32Array
+    const target = this.computeLayoutPositions()
+
+    this.layoutTween?.kill()
+    this.bakeDrift()
+
+    if (!animate) {
+      positions.set(target)
+      attribute.needsUpdate = true
+      return
+    }
+
+    const start = Float32Array.from(positions)
+    const progress = { value: 0 }
+    this.layoutTween = gsap.to(progress, {
+      value: 1,
+      duration: 1.6,
+      ease: "power3.inOut",
+      onUpdate: () => {
+        for (let i = 0; i < target.length; i++) {
+          positions[i] = start[i] + (target[i] - start[i]) * progress.value
+        }
+        attribute.needsUpdate = true
+      },
+      onComplete: () => {
+        this.layoutTween = null
+      },
+    })
+  }
+
+  computeLayoutPositions() {
+    return computeLayout(this.layout, {
+      count: this.meshCount,
+      bounds: {
+        maxX: this.shaderParameters.maxX,
+        maxY: this.shaderParameters.maxY,
+        minZ: MIN_Z,
+        maxZ: LAYOUT_MAX_Z,
+      },
+      instanceImages: this.instanceImages.subarray(0, this.meshCount),
+      imageTimes: this.imageInfos.map((_, i) => this.photos[i]?.timestamp ?? i),
+      random: createRandom(this.seed),
+    })
+  }
+
+  /**
+   * Fold the accumulated time drift into the base positions so a layout
+   * change starts from exactly where the cards are on screen
+   */
+  bakeDrift() {
+    const initialPosition = this.geometry.getAttribute("aInitialPosition")
+    const meshSpeed = this.geometry.getAttribute("aMeshSpeed")
+    const driftTime = this.material.uniforms.uDriftTime.value
+    const maxX = this.shaderParameters.maxX
+
+    if (driftTime !== 0) {
+      for (let i = 0; i < this.meshCount; i++) {
+        const x = initialPosition.getX(i) + driftTime * meshSpeed.getX(i)
+        initialPosition.setX(i, glslMod(x + maxX, maxX * 2) - maxX)
+      }
+      initialPosition.needsUpdate = true
+    }
+
+    this.material.uniforms.uDriftTime.value = 0
+  }
+
+  /**
+   * How many cards to draw for the current photos and density settings
+   */
+  getTargetCount(imageCount = this.imageInfos.length) {
+    return getCardCount(imageCount, this.density)
+  }
+
+  /**
+   * Grow or shrink the number of drawn cards. Cards that stay keep their
+   * image and position, new cards in the random field get their seeded spot.
+   */
+  setMeshCount(count: number) {
+    const previous = this.meshCount
+    if (count === previous) return
+
+    for (let i = count; i < previous; i++) {
+      this.instanceImages[i] = -1
+    }
+    this.meshCount = count
+    this.mesh.count = count
+
+    const attribute = this.geometry.getAttribute(
+      "aInitialPosition"
+    ) as THREE.InstancedBufferAttribute
+    if (count <= previous || !attribute || this.layout !== "random") return
+
+    const positions = attribute.array as Float32Array
+    const target = this.computeLayoutPositions()
+    positions.set(target.subarray(previous * 3, count * 3), previous * 3)
+    attribute.needsUpdate = true
+  }
+
+  /**
+   * Recompute the card count after the photo set changed.
+   * Returns the instances that changed image.
+   */
+  updateMeshCount(): number[] {
+    if (this.imageInfos.length === 0) return []
+
+    const capacity = this.density.maxCards
+    const needed = getCardCapacity(this.imageInfos.length, capacity)
+    if (needed !== capacity) {
+      console.log(`[Planes] ${this.imageInfos.length} photos, growing to ${needed} cards`)
+      this.density = { ...this.density, maxCards: needed }
+      this.resizeCapacity(capacity)
+    }
+
+    this.setMeshCount(this.getTargetCount())
+    return this.rebalanceInstances()
+  }
+
+  /**
+   * Change card density, e.g. to show every photo exactly once
+   */
+  setDensity(options: Partial<DensityOptions>) {
+    const capacity = this.density.maxCards
+    this.density = { ...this.density, ...options }
+    if (this.density.maxCards !== capacity) this.resizeCapacity(capacity)
+    // Before the first load fillMeshData picks the settings up
+    if (!this.geometry.getAttribute("aInitialPosition")) return
+
+    this.updateMeshCount()
+    this.updateTextureCoords()
+    this.updateSplatStatuses()
+    this.refreshLayout()
+  }
+
+  /**
+   * Reallocate instance buffers for a new density.maxCards, keeping the
+   * data of cards that still fit
+   */
+  resizeCapacity(previous: number) {
+    const capacity = this.density.maxCards
+    const kept = Math.min(previous, capacity)
+
+    const instanceImages = new Int32Array(capacity).fill(-1)
+    instanceImages.set(this.instanceImages.subarray(0, kept))
+    this.instanceImages = instanceImages
+    this.meshCount = Math.min(this.meshCount, capacity)
+
+    const names = [
+      "aInitialPosition",
+      "aMeshSpeed",
+      "aTextureCoords",
+      "aScale",
+      "aSplatStatus",
+      "aHidden",
+    ]
+    for (const name of names) {
+      const attribute = this.geometry.getAttribute(
+        name
+      ) as THREE.InstancedBufferAttribute
+      if (!attribute) continue
+
+      const { itemSize } = attribute
+      const array = new Float32Array(capacity * itemSize)
+      if (name === "aScale") array.fill(1)
+      array.set((attribute.array as Float32Array).subarray(0, kept * itemSize))
+      this.geometry.setAttribute(
+        name,
+        new THREE.InstancedBufferAttribute(array, itemSize)
+      )
+    }
+    if (this.geometry.getAttribute("aMeshSpeed")) this.fillMeshSpeeds()
+
+    // InstancedMesh can't change its capacity in place
+    this.scene.remove(this.mesh)
+    this.mesh.dispose()
+    this.createInstancedMesh()
+  }
+
+  /**
+   * Photo shown on an instance, undefined for demo covers and unused cards
+   */
+  getInstancePhoto(index: number): Photo | undefined {
+    return this.photos[this.instanceImages[index]]
+  }
+
+  getInstancePhotoId(index: number): string | undefined {
+    return this.getInstancePhoto(index)?.id
+  }
+
+  /**
+   * Every instance currently showing a photo
+   */
+  getPhotoInstances(photoId: string): number[] {
+    const instances: number[] = []
+    for (let i = 0; i < this.meshCount; i++) {
+      if (this.getInstancePhotoId(i) === photoId) instances.push(i)
+    }
+    return instances
+  }
+
+  /**
+   * Spread instances evenly over the current images while moving as few
+   * cards as possible. Returns the instances whose image changed.
+   */
+  rebalanceInstances(): number[] {
+    const imageCount = this.imageInfos.length
+    if (imageCount === 0) return []
+
+    const buckets: number[][] = Array.from({ length: imageCount }, () => [])
+    const pool: number[] = []
+    for (let i = 0; i < this.meshCount; i++) {
+      const image = this.instanceImages[i]
+      if (image >= 0 && image < imageCount) buckets[image].push(i)
+      else pool.push(i)
+    }
+
+    // Images that already have the most cards get the remainder
+    const base = Math.floor(this.meshCount / imageCount)
+    const remainder = this.meshCount % imageCount
+    const quotas = new Array<number>(imageCount).fill(base)
+    buckets
+      .map((bucket, image) => ({ image, size: bucket.length }))
+      .sort((a, b) => b.size - a.size)
+      .slice(0, remainder)
+      .forEach(({ image }) => quotas[image]++)
+
+    buckets.forEach((bucket, image) => {
+      while (bucket.length > quotas[image]) pool.push(bucket.pop()!)
+    })
+
+    const changed: number[] = []
+    buckets.forEach((bucket, image) => {
+      while (bucket.length < quotas[image] && pool.length > 0) {
+        const instance = pool.pop()!
+        bucket.push(instance)
+        this.instanceImages[instance] = image
+        changed.push(instance)
+      }
+    })
+
+    return changed
+  }
+
+  /**
+   * Write atlas coordinates and card shape for the given instances
+   * (all by default)
+   */
+  updateTextureCoords(instances?: number[]) {
+    const coordsAttribute = this.geometry.getAttribute(
+      "aTextureCoords"
+    ) as THREE.InstancedBufferAttribute
+    const scaleAttribute = this.geometry.getAttribute(
+      "aScale"
+    ) as THREE.InstancedBufferAttribute
+    if (!coordsAttribute || !scaleAttribute) return
+
+    const aTextureCoords = coordsAttribute.array as Float32Array
+    const aScale = scaleAttribute.array as Float32Array
+    const targets =
+      instances ?? Array.from({ length: this.meshCount }, (_, i) => i)
+
+    for (const i of targets) {
+      const info = this.imageInfos[this.instanceImages[i]]
+      if (!info) continue
+      const { uvs, aspectRatio } = info
+
+      // The atlas page rides in the integer part of the x coordinates,
+      // uvs themselves always stay inside [0, 1)
+      aTextureCoords[i * 4 + 0] = uvs.page + uvs.xStart
+      aTextureCoords[i * 4 + 1] = uvs.page + uvs.xEnd
+      aTextureCoords[i * 4 + 2] = uvs.yStart
+      aTextureCoords[i * 4 + 3] = uvs.yEnd
+
+      // Longest side stays at the square card's size
+      if (this.cardFit === "contain") {
+        aScale[i * 2 + 0] = aspectRatio >= 1 ? 1 : aspectRatio
+        aScale[i * 2 + 1] = aspectRatio >= 1 ? 1 / aspectRatio : 1
+      } else {
+        aScale[i * 2 + 0] = 1
+        aScale[i * 2 + 1] = 1
+      }
+    }
+
+    if (targets.length > 0) {
+      coordsAttribute.needsUpdate = true
+      scaleAttribute.needsUpdate = true
+    }
+  }
+
+  /**
+   * Switch between square cropped cards and cards shaped like their photo
+   */
+  setCardFit(fit: CardFit) {
+    if (fit === this.cardFit) return
+    this.cardFit = fit
+    this.updateTextureCoords()
+  }
+
+  /**
+   * Refresh the per-card splat status from the photos on screen.
+   * Pass the latest photo list from onPhotosChanged to pick up changes.
+   */
+  updateSplatStatuses(photos?: Photo[]) {
+    const attribute = this.geometry.getAttribute(
+      "aSplatStatus"
+    ) as THREE.InstancedBufferAttribute
+    if (!attribute) return
+
+    if (photos) {
+      const latest = new Map(photos.map((p) => [p.id, p]))
+      this.photos = this.photos.map((p) => latest.get(p.id) ?? p)
+    }
+
+    const aSplatStatus = attribute.array as Float32Array
+    for (let i = 0; i < this.meshCount; i++) {
+      const status = this.getInstancePhoto(i)?.splatStatus
+      aSplatStatus[i] = status ? SPLAT_STATUS_CODES[status] : 0
+    }
+
+    attribute.needsUpdate = true
   }
 
   bindDrag(element: HTMLElement) {
     this.dragElement = element
 
     const onPointerDown = (e: PointerEvent) => {
+      if (!this.isInteractive) return
       this.drag.isDown = true
       this.drag.startX = e.clientX
       this.drag.startY = e.clientY
@@ -323,7 +856,153 @@ export default class Planes {
     window.addEventListener("pointerup", onPointerUp)
   }
 
+  /**
+   * Whether a pointer release ended a click rather than a drag
+   */
+  isClick(event: PointerEvent) {
+    const dx = event.clientX - this.drag.startX
+    const dy = event.clientY - this.drag.startY
+    return Math.hypot(dx, dy) < CLICK_THRESHOLD
+  }
+
+  /**
+   * Compute where an instance's card currently sits in world space.
+   * Mirrors the displacement math in vertex.glsl so picking matches
+   * what is on screen.
+   */
+  getInstanceCenter(index: number, target: THREE.Vector3) {
+    const initialPosition = this.geometry.getAttribute("aInitialPosition")
+    const meshSpeed = this.geometry.getAttribute("aMeshSpeed")
+    const uniforms = this.material.uniforms
+
+    const x = initialPosition.getX(index)
+    const y = initialPosition.getY(index)
+    const z = initialPosition.getZ(index)
+
+    const maxX = uniforms.uMaxXdisplacement.value.x
+    const maxY = uniforms.uMaxXdisplacement.value.y
+    const drag = uniforms.uDrag.value
+
+    const maxXoffset = Math.abs(x - maxX)
+    const minXoffset = Math.abs(x + maxX)
+    const maxYoffset = Math.abs(y - maxY)
+    const minYoffset = Math.abs(y + maxY)
+    const maxZoffset = Math.abs(z - MAX_Z)
+    const minZoffset = Math.abs(z - MIN_Z)
+
+    const xDisplacement =
+      glslMod(
+        minXoffset - drag.x + uniforms.uDriftTime.value * meshSpeed.getX(index),
+        maxXoffset + minXoffset
+      ) - minXoffset
+    const yDisplacement =
+      glslMod(minYoffset - drag.y, maxYoffset + minYoffset) - minYoffset
+    const zDisplacement =
+      glslMod(uniforms.uScrollY.value + minZoffset, maxZoffset + minZoffset) -
+      minZoffset
+
+    return target.set(x + xDisplacement, y + yDisplacement, z + zDisplacement)
+  }
+
+  /**
+   * The copy of a photo's card nearest to a point in front of it, e.g. the
+   * camera. Returns -1 when no visible card shows the photo.
+   */
+  findPhotoInstance(photoId: string, from: THREE.Vector3) {
+    const center = new THREE.Vector3()
+    let closestIndex = -1
+    let closestDistance = Infinity
+
+    for (const i of this.getPhotoInstances(photoId)) {
+      this.getInstanceCenter(i, center)
+      if (remap(center.z, MIN_Z, MIN_Z + 5) < 0.5 || center.z >= from.z) continue
+
+      const distance = center.distanceToSquared(from)
+      if (distance < closestDistance) {
+        closestIndex = i
+        closestDistance = distance
+      }
+    }
+
+    return closestIndex
+  }
+
+  /**
+   * Fade one card out, or pass -1 to show every card again
+   */
+  setFocus(index: number, fade = 1) {
+    this.material.uniforms.uFocusInstance.value = index
+    this.material.uniforms.uFocusFade.value = index < 0 ? 1 : fade
+  }
+
+  /**
+   * Hide exactly these cards, e.g. while splats are drawn in their place
+   */
+  setHiddenInstances(instances: number[]) {
+    const attribute = this.geometry.getAttribute(
+      "aHidden"
+    ) as THREE.InstancedBufferAttribute
+    if (!attribute) return
+
+    const aHidden = attribute.array as Float32Array
+    aHidden.fill(0)
+    for (const i of instances) {
+      if (i >= 0 && i < aHidden.length) aHidden[i] = 1
+    }
+    attribute.needsUpdate = true
+  }
+
+  /**
+   * Find the instance whose visible card is hit first by a ray.
+   * Returns -1 when the ray misses every card.
+   */
+  pickInstance(ray: THREE.Ray, near = 0) {
+    if (!this.geometry.getAttribute("aInitialPosition")) return -1
+
+    const scale = this.geometry.getAttribute("aScale")
+    const center = new THREE.Vector3()
+    let closestIndex = -1
+    let closestDistance = Infinity
+
+    for (let i = 0; i < this.meshCount; i++) {
+      this.getInstanceCenter(i, center)
+
+      // Cards fading in at the back of the field are not clickable yet
+      if (remap(center.z, MIN_Z, MIN_Z + 5) < 0.5) continue
+
+      // Cards are axis-aligned planes facing +z
+      if (ray.direction.z === 0) continue
+      const distance = (center.z - ray.origin.z) / ray.direction.z
+      if (distance <= near || distance >= closestDistance) continue
+
+      const localX = ray.origin.x + ray.direction.x * distance - center.x
+      const localY = ray.origin.y + ray.direction.y * distance - center.y
+      const halfWidth = CARD_HALF_SIZE * scale.getX(i)
+      const halfHeight = CARD_HALF_SIZE * scale.getY(i)
+      if (roundedBox(localX, localY, halfWidth, halfHeight, CARD_CORNER_RADIUS) > 0) {
+        continue
+      }
+
+      closestIndex = i
+      closestDistance = distance
+    }
+
+    return closestIndex
+  }
+
+  /**
+   * Resolve a picked instance to its photo and notify the click callback
+   */
+  handleInstanceClick(index: number) {
+    if (index < 0) return
+
+    const imageIndex = this.instanceImages[index]
+    if (imageIndex < 0) return
+    this.onPlaneClick?.(imageIndex, this.getInstancePhoto(index))
+  }
+
   onWheel(event: MouseEvent) {
+    if (!this.isInteractive) return
     const normalizedWheel = normalizeWheel(event)
 
     let scrollY =
@@ -335,6 +1014,10 @@ export default class Planes {
 
   render(delta: number) {
     this.material.uniforms.uTime.value += delta * 0.015
+    // Cards only drift sideways in the random field
+    if (this.layout === "random") {
+      this.material.uniforms.uDriftTime.value += delta * 0.015
+    }
 
     this.drag.xCurrent +=
       (this.drag.xTarget - this.drag.xCurrent) * this.dragDamping
@@ -357,6 +1040,66 @@ export default class Planes {
   }
 }
 
+/**
+ * Cards to draw for a number of photos. Every photo gets at least one,
+ * with getCardCapacity making room for them.
+ */
+export const getCardCount = (imageCount: number, density: DensityOptions) => {
+  const { mode, targetCards, maxCopiesPerPhoto, maxCards } = density
+  if (mode === "unique") return Math.min(imageCount, maxCards)
+
+  const copies = Math.max(
+    1,
+    Math.min(maxCopiesPerPhoto, Math.round(targetCards / imageCount))
+  )
+  return Math.min(maxCards, imageCount * copies)
+}
+
+/**
+ * Instance capacity that fits one card per photo, growing maxCards in
+ * whole steps so adding a few photos doesn't reallocate every time
+ */
+export const getCardCapacity = (imageCount: number, maxCards: number) => {
+  if (imageCount <= maxCards) return maxCards
+  return Math.ceil(imageCount / CAPACITY_STEP) * CAPACITY_STEP
+}
+
+// Stands in for an image the atlas worker hasn't drawn yet, the negative
+// page tells the shader to draw a blank card
+const createPlaceholder = (): AtlasEntry => ({
+  width: 1,
+  height: 1,
+  aspectRatio: 1,
+  uvs: { xStart: 0, xEnd: 0, yStart: 0, yEnd: 0, page: -1 },
+  slot: { x: 0, y: 0, width: 0, height: 0 },
+})
+
 const interpolate = (current: number, target: number, ease: number) => {
   return current + (target - current) * ease
 }
+
+// GLSL mod() floors towards negative infinity, unlike JS %
+const glslMod = (x: number, y: number) => {
+  return x - y * Math.floor(x / y)
+}
+
+const remap = (value: number, originMin: number, originMax: number) => {
+  return Math.min(Math.max((value - originMin) / (originMax - originMin), 0), 1)
+}
+
+// Same rounded rectangle SDF as fragment.glsl
+const roundedBox = (
+  x: number,
+  y: number,
+  halfWidth: number,
+  halfHeight: number,
+  radius: number
+) => {
+  const qx = Math.abs(x) - halfWidth + radius
+  const qy = Math.abs(y) - halfHeight + radius
+  return (
+    Math.min(Math.max(qx, qy), 0) +
+    Math.hypot(Math.max(qx, 0), Math.max(qy, 0)) -
+    radius
+  )
+}
@@ -0,0 +1,292 @@
+/**
+ * PLY Parser - Read Gaussian splat PLY files without the viewer
+ *
+ * Parses the header and walks the vertex data of binary PLY files to
+ * describe a splat before it is shown: how many Gaussians it has, where
+ * they sit, how big they are and how opaque. Large files are sampled.
+ */
+
+import * as THREE from 'three'
+
+export interface PlyProperty {
+  name: string
+  type: string
+  offset: number
+}
+
+export interface PlyHeader {
+  format: 'binary_little_endian' | 'binary_big_endian' | 'ascii'
+  vertexCount: number
+  // Bytes per vertex
+  vertexSize: number
+  properties: PlyProperty[]
+  // Bytes of the header text, including end_header
+  headerSize: number
+  // Byte offset of the first vertex
+  dataOffset: number
+}
+
+export interface SplatStats {
+  count: number
+  // Every Gaussian, floaters included
+  bounds: THREE.Box3
+  // The 2nd to 98th percentile on each axis, what the memory really covers
+  coreBounds: THREE.Box3
+  // Median of each Gaussian's largest axis, in world units
+  medianScale: number
+  opacity: {
+    mean: number
+    // Share of Gaussians per tenth of the [0, 1] opacity range
+    histogram: number[]
+  }
+  // How far the Gaussians in front of the origin spread as seen from it,
+  // as tangents of the half angles. Sharp puts the source camera at the
+  // origin, so this is roughly the photo's field of view.
+  frustum: { tanX: number; tanY: number } | null
+}
+
+const TYPE_SIZES: Record<string, number> = {
+  char: 1,
+  int8: 1,
+  uchar: 1,
+  uint8: 1,
+  short: 2,
+  int16: 2,
+  ushort: 2,
+  uint16: 2,
+  int: 4,
+  int32: 4,
+  uint: 4,
+  uint32: 4,
+  float: 4,
+  float32: 4,
+  double: 8,
+  float64: 8,
+}
+
+const HEADER_END = 'end_header'
+const MAX_HEADER_BYTES = 64 * 1024
+const SAMPLE_LIMIT = 200_000
+const CORE_PERCENTILE = 0.02
+const HISTOGRAM_BINS = 10
+
+/**
+ * Parse the header, throwing for files this parser can't walk
+ */
+export function parsePlyHeader(buffer: ArrayBuffer): PlyHeader {
+  const bytes = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, MAX_HEADER_BYTES))
+  const text = new TextDecoder().decode(bytes)
+  const end = text.indexOf(HEADER_END)
+  if (!text.startsWith('ply') || end === -1) {
+    throw new Error('Not a PLY file')
+  }
+
+  // The header is ASCII, so characters and bytes line up
+  const newline = text.indexOf('\n', end)
+  const dataOffset = newline + 1
+  const lines = text.slice(0, end).split(/\r?\n/)
+
+  let format: PlyHeader['format'] | null = null
+  let element: string | null = null
+  // Bytes of elements stored before the vertices
+  let skippedBytes = 0
+  let vertexCount = 0
+  const properties: PlyProperty[] = []
+  let vertexSize = 0
+  let elementCount = 0
+
+  for (const line of lines) {
+    const [keyword, ...parts] = line.trim().split(/\s+/)
+
+    if (keyword === 'format') {
+      format = parts[0] as PlyHeader['format']
+    } else if (keyword === 'element') {
+      element = parts[0]
+      elementCount = parseInt(parts[1], 10)
+      if (element === 'vertex') vertexCount = elementCount
+    } else if (keyword === 'property') {
+      if (parts[0] === 'list') {
+        if (element === 'vertex' || vertexCount === 0) {
+          throw new Error('PLY list properties are not supported')
+        }
+        // Lists after the vertices don't matter
+        continue
+      }
+
+      const size = TYPE_SIZES[parts[0]]
+      if (!size) throw new Error(`Unknown PLY property type: ${parts[0]}`)
+
+      if (element === 'vertex') {
+        properties.push({ name: parts[1], type: parts[0], offset: vertexSize })
+        vertexSize += size
+      } else if (vertexCount === 0) {
+        skippedBytes += size * elementCount
+      }
+    }
+  }
+
+  if (!format) throw new Error('PLY format missing')
+  if (format === 'ascii') throw new Error('ASCII PLY files are not supported')
+  if (vertexCount === 0) throw new Error('PLY file has no vertices')
+
+  return {
+    format,
+    vertexCount,
+    vertexSize,
+    properties,
+    headerSize: dataOffset,
+    dataOffset: dataOffset + skippedBytes,
+  }
+}
+
+/**
+ * Describe a Gaussian splat PLY. Bounds cover every Gaussian, the rest is
+ * measured on an even sample of at most SAMPLE_LIMIT Gaussians.
+ */
+export function analyzeSplat(buffer: ArrayBuffer): SplatStats {
+  const header = parsePlyHeader(buffer)
+  const { vertexCount, vertexSize, dataOffset } = header
+
+  const available = Math.floor((buffer.byteLength - dataOffset) / vertexSize)
+  const count = Math.min(vertexCount, available)
+  const view = new DataView(buffer, dataOffset)
+  const read = createReader(view, header)
+
+  const x = read('x')
+  const y = read('y')
+  const z = read('z')
+  if (!x || !y || !z) throw new Error('PLY vertices have no position')
+  const scales = ['scale_0', 'scale_1', 'scale_2'].map(read)
+  const opacity = read('opacity')
+
+  const bounds = new THREE.Box3()
+  const point = new THREE.Vector3()
+  for (let i = 0; i < count; i++) {
+    bounds.expandByPoint(point.set(x(i), y(i), z(i)))
+  }
+
+  const stride = Math.max(1, Math.ceil(count / SAMPLE_LIMIT))
+  const samples = Math.ceil(count / stride)
+  const xs = new Float32Array(samples)
+  const ys = new Float32Array(samples)
+  const zs = new Float32Array(samples)
+  const sizes = new Float32Array(samples)
+  const histogram = new Array(HISTOGRAM_BINS).fill(0)
+  let opacitySum = 0
+  const slopesX: number[] = []
+  const slopesY: number[] = []
+
+  for (let s = 0, i = 0; i < count; s++, i += stride) {
+    xs[s] = x(i)
+    ys[s] = y(i)
+    zs[s] = z(i)
+    if (zs[s] > 0) {
+      slopesX.push(Math.abs(xs[s] / zs[s]))
+      slopesY.push(Math.abs(ys[s] / zs[s]))
+    }
+
+    // Scales are stored as logs
+    let size = 0
+    for (const scale of scales) {
+      if (scale) size = Math.max(size, Math.exp(scale(i)))
+    }
+    sizes[s] = size
+
+    // Opacity is stored before the sigmoid
+    const alpha = opacity ? 1 / (1 + Math.exp(-opacity(i))) : 1
+    opacitySum += alpha
+    histogram[Math.min(HISTOGRAM_BINS - 1, Math.floor(alpha * HISTOGRAM_BINS))]++
+  }
+
+  const coreBounds = new THREE.Box3(
+    new THREE.Vector3(
+      percentile(xs, CORE_PERCENTILE),
+      percentile(ys, CORE_PERCENTILE),
+      percentile(zs, CORE_PERCENTILE)
+    ),
+    new THREE.Vector3(
+      percentile(xs, 1 - CORE_PERCENTILE),
+      percentile(ys, 1 - CORE_PERCENTILE),
+      percentile(zs, 1 - CORE_PERCENTILE)
+    )
+  )
+
+  return {
+    count,
+    bounds,
+    coreBounds,
+    medianScale: percentile(sizes, 0.5),
+    opacity: {
+      mean: samples > 0 ? opacitySum / samples : 0,
+      histogram: histogram.map((n) => (samples > 0 ? n / samples : 0)),
+    },
+    frustum:
+      slopesX.length > 0
+        ? {
+            tanX: percentile(new Float32Array(slopesX), 1 - CORE_PERCENTILE),
+            tanY: percentile(new Float32Array(slopesY), 1 - CORE_PERCENTILE),
+          }
+        : null,
+  }
+}
+
+/**
+ * Restore stats that went through structured cloning, e.g. postMessage
+ * or IndexedDB, which keeps the fields but not the Box3 methods
+ */
+export function reviveStats(stats: SplatStats): SplatStats {
+  return {
+    ...stats,
+    bounds: new THREE.Box3().copy(stats.bounds),
+    coreBounds: new THREE.Box3().copy(stats.coreBounds),
+  }
+}
+
+/**
+ * Returns a getter per property name, reading that property of vertex i
+ * from a view that starts at the first vertex
+ */
+export function createReader(view: DataView, header: PlyHeader) {
+  const littleEndian = header.format === 'binary_little_endian'
+  const { vertexSize } = header
+
+  return (name: string) => {
+    const property = header.properties.find((p) => p.name === name)
+    if (!property) return null
+
+    const { offset } = property
+    switch (property.type) {
+      case 'float':
+      case 'float32':
+        return (i: number) => view.getFloat32(i * vertexSize + offset, littleEndian)
+      case 'double':
+      case 'float64':
+        return (i: number) => view.getFloat64(i * vertexSize + offset, littleEndian)
+      case 'char':
+      case 'int8':
+        return (i: number) => view.getInt8(i * vertexSize + offset)
+      case 'uchar':
+      case 'uint8':
+        return (i: number) => view.getUint8(i * vertexSize + offset)
+      case 'short':
+      case 'int16':
+        return (i: number) => view.getInt16(i * vertexSize + offset, littleEndian)
+      case 'ushort':
+      case 'uint16':
+        return (i: number) => view.getUint16(i * vertexSize + offset, littleEndian)
+      case 'int':
+      case 'int32':
+        return (i: number) => view.getInt32(i * vertexSize + offset, littleEndian)
+      default:
+        return (i: number) => view.getUint32(i * vertexSize + offset, littleEndian)
+    }
+  }
+}
+
+// Sorts values in place
+function percentile(values: Float32Array, p: number) {
+  if (values.length === 0) return 0
+  values.sort()
+  const index = Math.min(values.length - 1, Math.max(0, Math.round(p * (values.length - 1))))
+  return values[index]
+}
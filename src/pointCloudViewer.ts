@@ -0,0 +1,185 @@
+/**
+ * Point Cloud Viewer - Draw a Gaussian splat PLY as plain points
+ *
+ * A lightweight stand-in for the Gaussian viewer: one THREE.Points with
+ * each Gaussian's centre and base colour, sized by its scale. No sorting,
+ * no blending, so it stays smooth on devices the full splats struggle on.
+ * Mirrors the parts of the library's Viewer that SplatViewer relies on.
+ */
+
+import * as THREE from 'three'
+import { OrbitControls } from 'three/addons/controls/OrbitControls.js'
+import { createReader, parsePlyHeader } from './plyParser'
+import vertexShader from './shaders/pointsVertex.glsl'
+import fragmentShader from './shaders/pointsFragment.glsl'
+
+export interface PointCloudViewerOptions {
+  rootElement: HTMLElement
+  cameraUp?: [number, number, number]
+  initialCameraPosition?: [number, number, number]
+  initialCameraLookAt?: [number, number, number]
+}
+
+// Zeroth order spherical harmonic, turns f_dc into a colour
+const SH_C0 = 0.28209479177387814
+// Gaussians more transparent than this are left out, like the splat
+// viewers' alpha threshold
+const MIN_OPACITY = 5 / 255
+// Points span two standard deviations of their Gaussian
+const POINT_SIZE_SCALE = 2
+const MAX_POINT_SIZE = 64 // px
+
+export default class PointCloudViewer {
+  rootElement: HTMLElement
+  renderer: THREE.WebGLRenderer
+  camera: THREE.PerspectiveCamera
+  threeScene: THREE.Scene = new THREE.Scene()
+  controls: OrbitControls
+  points: THREE.Points | null = null
+  material: THREE.ShaderMaterial
+  resizeObserver: ResizeObserver
+  frame: number = 0
+
+  constructor({
+    rootElement,
+    cameraUp = [0, 1, 0],
+    initialCameraPosition = [0, 0, 4],
+    initialCameraLookAt = [0, 0, 0],
+  }: PointCloudViewerOptions) {
+    this.rootElement = rootElement
+
+    this.renderer = new THREE.WebGLRenderer({ antialias: false })
+    this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2))
+    this.renderer.setClearColor(0xffffff, 1)
+    this.renderer.domElement.style.cssText = 'width: 100%; height: 100%; display: block;'
+    rootElement.appendChild(this.renderer.domElement)
+
+    // Same lens as the library's built-in camera
+    this.camera = new THREE.PerspectiveCamera(50, 1, 0.1, 1000)
+    this.camera.up.fromArray(cameraUp)
+    this.camera.position.fromArray(initialCameraPosition)
+
+    this.controls = new OrbitControls(this.camera, this.renderer.domElement)
+    this.controls.enableDamping = true
+    this.controls.target.fromArray(initialCameraLookAt)
+    this.controls.update()
+
+    this.material = new THREE.ShaderMaterial({
+      vertexShader,
+      fragmentShader,
+      uniforms: {
+        uViewportHeight: { value: 1 },
+        uMaxPointSize: { value: MAX_POINT_SIZE },
+      },
+    })
+
+    this.resizeObserver = new ResizeObserver(() => this.resize())
+    this.resizeObserver.observe(rootElement)
+    this.resize()
+
+    this.render = this.render.bind(this)
+    this.frame = requestAnimationFrame(this.render)
+  }
+
+  /**
+   * Replace the points with a PLY's Gaussians
+   */
+  load(data: ArrayBuffer) {
+    const geometry = createPointGeometry(data)
+
+    if (this.points) {
+      this.points.geometry.dispose()
+      this.points.geometry = geometry
+    } else {
+      this.points = new THREE.Points(geometry, this.material)
+      // Bounds are computed from positions, no need to cull
+      this.points.frustumCulled = false
+      this.threeScene.add(this.points)
+    }
+  }
+
+  /**
+   * Bytes of point data uploaded to the GPU
+   */
+  getGpuBytes() {
+    if (!this.points) return 0
+    return Object.values(this.points.geometry.attributes).reduce(
+      (sum, attribute) => sum + (attribute as THREE.BufferAttribute).array.byteLength,
+      0
+    )
+  }
+
+  resize() {
+    const width = Math.max(1, this.rootElement.clientWidth)
+    const height = Math.max(1, this.rootElement.clientHeight)
+    this.renderer.setSize(width, height, false)
+    this.camera.aspect = width / height
+    this.camera.updateProjectionMatrix()
+    this.material.uniforms.uViewportHeight.value = height * this.renderer.getPixelRatio()
+  }
+
+  render() {
+    this.frame = requestAnimationFrame(this.render)
+    this.controls.update()
+    this.renderer.render(this.threeScene, this.camera)
+  }
+
+  dispose() {
+    cancelAnimationFrame(this.frame)
+    this.resizeObserver.disconnect()
+    this.controls.dispose()
+    this.points?.geometry.dispose()
+    this.material.dispose()
+    this.renderer.dispose()
+    this.renderer.domElement.remove()
+  }
+}
+
+/**
+ * Positions, base colours and sizes of a PLY's visible Gaussians
+ */
+function createPointGeometry(data: ArrayBuffer) {
+  const header = parsePlyHeader(data)
+  const read = createReader(new DataView(data, header.dataOffset), header)
+  const x = read('x')
+  const y = read('y')
+  const z = read('z')
+  if (!x || !y || !z) throw new Error('PLY vertices have no position')
+  const colours = ['f_dc_0', 'f_dc_1', 'f_dc_2'].map(read)
+  const scales = ['scale_0', 'scale_1', 'scale_2'].map(read)
+  const opacity = read('opacity')
+
+  const minLogit = Math.log(MIN_OPACITY / (1 - MIN_OPACITY))
+  const positions = new Float32Array(header.vertexCount * 3)
+  const colors = new Float32Array(header.vertexCount * 3)
+  const sizes = new Float32Array(header.vertexCount)
+  let count = 0
+
+  for (let i = 0; i < header.vertexCount; i++) {
+    if (opacity && opacity(i) < minLogit) continue
+
+    positions[count * 3] = x(i)
+    positions[count * 3 + 1] = y(i)
+    positions[count * 3 + 2] = z(i)
+
+    colours.forEach((colour, channel) => {
+      const value = colour ? 0.5 + SH_C0 * colour(i) : 0.5
+      colors[count * 3 + channel] = Math.min(1, Math.max(0, value))
+    })
+
+    // Scales are stored as logs
+    let size = 0
+    for (const scale of scales) {
+      if (scale) size = Math.max(size, Math.exp(scale(i)))
+    }
+    sizes[count] = size * POINT_SIZE_SCALE
+
+    count++
+  }
+
+  const geometry = new THREE.BufferGeometry()
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions.slice(0, count * 3), 3))
+  geometry.setAttribute('aColor', new THREE.BufferAttribute(colors.slice(0, count * 3), 3))
+  geometry.setAttribute('aSize', new THREE.BufferAttribute(sizes.slice(0, count), 1))
+  return geometry
+}
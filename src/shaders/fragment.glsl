@@ -1,10 +1,26 @@
 varying vec2 vUv;
 varying float vVisibility;
 varying vec4 vTextureCoords;
+varying float vSplatStatus;
+varying vec2 vScale;
+varying float vViewDepth;
+varying float vFocusFade;
 
 uniform sampler2D uWrapperTexture;
-uniform sampler2D uAtlas;
-uniform sampler2D uBlurryAtlas;
+uniform sampler2DArray uAtlas;
+uniform sampler2DArray uBlurryAtlas;
+uniform float uTime;
+uniform float uSpeedY;
+
+// Depth of field and motion blur
+uniform float uFocalDistance;
+uniform float uAperture;
+uniform float uMotionBlur;
+
+// Splat status codes, must match SPLAT_STATUS_CODES in planes.ts
+const float STATUS_PROCESSING = 1.0;
+const float STATUS_READY = 2.0;
+const float STATUS_FAILED = 3.0;
 
 // Rounded rectangle SDF
 float roundedBox(vec2 p, vec2 b, float r) {
@@ -12,13 +28,27 @@ float roundedBox(vec2 p, vec2 b, float r) {
     return min(max(q.x, q.y), 0.0) + length(max(q, 0.0)) - r;
 }
 
+// Regular hexagon SDF, used as a cube silhouette for the 3D badge
+float hexagon(vec2 p, float r) {
+    const vec3 k = vec3(-0.866025404, 0.5, 0.577350269);
+    p = abs(p);
+    p -= 2.0 * min(dot(k.xy, p), 0.0) * k.xy;
+    p -= vec2(clamp(p.x, -k.z * r, k.z * r), r);
+    return length(p) * sign(p.y);
+}
+
+bool isStatus(float status) {
+    return abs(vSplatStatus - status) < 0.5;
+}
+
 void main()
 {
-    // Create rounded rectangle mask
-    vec2 center = vUv - 0.5;
+    // Create rounded rectangle mask, measured in card space so corners
+    // stay round on non-square cards
+    vec2 center = (vUv - 0.5) * vScale;
     float cornerRadius = 0.08;
     float boxSize = 0.45;
-    float dist = roundedBox(center, vec2(boxSize), cornerRadius);
+    float dist = roundedBox(center, vec2(boxSize) * vScale, cornerRadius);
 
     // Smooth edge with antialiasing
     float edge = 0.01;
@@ -26,26 +56,74 @@ void main()
 
     if (alpha < 0.01) discard;
 
-    // Get UV coordinates for this image from the atlas
-    float xStart = vTextureCoords.x;
-    float xEnd = vTextureCoords.y;
+    // Get UV coordinates for this image from the atlas, the page index
+    // is packed into the integer part of the x coordinates
+    float page = floor(vTextureCoords.x);
+    float xStart = vTextureCoords.x - page;
+    float xEnd = vTextureCoords.y - page;
     float yStart = vTextureCoords.z;
     float yEnd = vTextureCoords.w;
 
-    vec2 atlasUV = vec2(
-        mix(xStart, xEnd, vUv.x),
-        mix(yStart, yEnd, 1.0 - vUv.y)
-    );
+    vec4 color;
+    if (page < 0.0) {
+        // Placeholder while the atlas worker is still drawing this photo
+        float shimmer = 0.5 + 0.5 * sin(uTime * 10.0 - (vUv.x + vUv.y) * 6.0);
+        color = vec4(vec3(0.9 + 0.04 * shimmer), 1.0);
+    } else {
+        // Crop the photo to the card ("cover"), a no-op when the card
+        // already has the photo's shape ("contain")
+        float imageAspect = (xEnd - xStart) / (yEnd - yStart);
+        float cardAspect = vScale.x / vScale.y;
+        vec2 crop = imageAspect > cardAspect
+            ? vec2(cardAspect / imageAspect, 1.0)
+            : vec2(1.0, imageAspect / cardAspect);
+        vec2 cardUv = (vUv - 0.5) * crop + 0.5;
 
-    // Sample the photo
-    vec4 color = texture2D(uAtlas, atlasUV);
+        vec2 atlasUV = vec2(
+            mix(xStart, xEnd, cardUv.x),
+            mix(yStart, yEnd, 1.0 - cardUv.y)
+        );
+
+        // Sample the photo, blending towards the blurred atlas away from the
+        // focal plane and while scrolling fast
+        color = texture(uAtlas, vec3(atlasUV, page));
+        float defocus = abs(vViewDepth - uFocalDistance) * uAperture;
+        float motion = abs(uSpeedY) * uMotionBlur;
+        float blur = clamp(defocus + motion, 0.0, 1.0);
+        if (blur > 0.0) {
+            vec4 blurry = texture(uBlurryAtlas, vec3(atlasUV, page));
+            color = mix(color, blurry, blur);
+        }
+    }
 
     // Apply visibility fade for depth
-    color.a = alpha * vVisibility;
+    color.a = alpha * vVisibility * vFocusFade;
 
     // Add subtle border glow based on distance from edge
     float borderGlow = smoothstep(0.0, -0.03, dist);
     color.rgb = mix(color.rgb, color.rgb * 1.1, borderGlow * 0.3);
 
+    // Splat generation status
+    if (isStatus(STATUS_PROCESSING)) {
+        // Shimmer ring chasing around the card edge
+        float ring = smoothstep(-0.04, -0.025, dist) * (1.0 - smoothstep(-0.01, 0.0, dist));
+        float angle = atan(center.y, center.x);
+        float sweep = pow(0.5 + 0.5 * sin(angle * 2.0 - uTime * 20.0), 4.0);
+        color.rgb = mix(color.rgb, vec3(1.0), ring * (0.35 + 0.65 * sweep));
+    } else if (isStatus(STATUS_READY)) {
+        // Small indigo badge with a cube outline in the top-right corner
+        vec2 badgeCenter = center - (vec2(0.45) * vScale - 0.12);
+        float badge = 1.0 - smoothstep(-0.004, 0.004, length(badgeCenter) - 0.06);
+        float cube = abs(hexagon(badgeCenter.yx, 0.03)) - 0.006;
+        float glyph = 1.0 - smoothstep(-0.003, 0.003, cube);
+        color.rgb = mix(color.rgb, vec3(0.388, 0.4, 0.945), badge);
+        color.rgb = mix(color.rgb, vec3(1.0), glyph * badge);
+    } else if (isStatus(STATUS_FAILED)) {
+        // Washed out and desaturated
+        float gray = dot(color.rgb, vec3(0.299, 0.587, 0.114));
+        color.rgb = mix(vec3(gray), vec3(1.0), 0.35);
+        color.a *= 0.6;
+    }
+
     gl_FragColor = color;
 }
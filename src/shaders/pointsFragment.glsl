@@ -0,0 +1,9 @@
+varying vec3 vColor;
+
+void main() {
+  // Round points, without blending so they need no sorting
+  vec2 offset = gl_PointCoord - 0.5;
+  if (dot(offset, offset) > 0.25) discard;
+
+  gl_FragColor = vec4(vColor, 1.0);
+}
@@ -0,0 +1,19 @@
+attribute vec3 aColor;
+attribute float aSize;
+
+uniform float uViewportHeight;
+uniform float uMaxPointSize;
+
+varying vec3 vColor;
+
+void main() {
+  vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+  gl_Position = projectionMatrix * mvPosition;
+
+  // aSize is a diameter in world units, projected to pixels the way the
+  // camera projects a sphere of that size
+  float pixels = aSize * uViewportHeight * projectionMatrix[1][1] * 0.5 / -mvPosition.z;
+  gl_PointSize = clamp(pixels, 1.0, uMaxPointSize);
+
+  vColor = aColor;
+}
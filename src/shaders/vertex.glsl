@@ -3,18 +3,30 @@ varying vec2 vUv;
 attribute vec3 aInitialPosition;
 attribute float aMeshSpeed;
 attribute vec4 aTextureCoords;
+attribute float aSplatStatus;
+attribute vec2 aScale;
+attribute float aHidden;
 
 
 uniform float uTime;
+uniform float uDriftTime;
 uniform vec2 uMaxXdisplacement;
 uniform vec2 uDrag;
 
 uniform float uSpeedY;
 uniform float uScrollY;
 
+// Card the camera is flying into, faded out as the splat takes over
+uniform float uFocusInstance;
+uniform float uFocusFade;
+
 
 varying float vVisibility;
 varying vec4 vTextureCoords;
+varying float vSplatStatus;
+varying vec2 vScale;
+varying float vViewDepth;
+varying float vFocusFade;
 
 
 //linear smoothstep
@@ -26,7 +38,7 @@ float remap(float value, float originMin, float originMax)
 void main()
 {     
     
-    vec3 newPosition=position + aInitialPosition;
+    vec3 newPosition=position * vec3(aScale, 1.0) + aInitialPosition;
 
 
     float maxX = uMaxXdisplacement.x;
@@ -40,7 +52,7 @@ void main()
     float minXoffset = distance(aInitialPosition.x,-maxX);
     
     
-    float xDisplacement = mod(minXoffset -uDrag.x + uTime * aMeshSpeed, maxXoffset+minXoffset) - minXoffset;
+    float xDisplacement = mod(minXoffset -uDrag.x + uDriftTime * aMeshSpeed, maxXoffset+minXoffset) - minXoffset;
     float yDisplacement = mod(minYoffset -uDrag.y, maxYoffset+minYoffset) - minYoffset;
 
     
@@ -66,9 +78,14 @@ void main()
 
 
     vec4 viewPosition = viewMatrix * modelPosition;
+    vViewDepth = -viewPosition.z;
     vec4 projectedPosition = projectionMatrix * viewPosition;
     gl_Position = projectedPosition;    
 
     vUv = uv;
     vTextureCoords = aTextureCoords;
+    vSplatStatus = aSplatStatus;
+    vScale = aScale;
+    vFocusFade = abs(float(gl_InstanceID) - uFocusInstance) < 0.5 ? uFocusFade : 1.0;
+    vFocusFade *= 1.0 - aHidden;
 }
\ No newline at end of file
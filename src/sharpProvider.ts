@@ -0,0 +1,244 @@
+/**
+ * Sharp Provider - Splat generation through the Sharp API
+ *
+ * Talks to the Vercel serverless functions under /api/sharp, which queue
+ * jobs, run Sharp on Modal in a worker and keep jobs and results in
+ * Supabase.
+ *
+ * Status changes are pushed over /api/sharp/events. Every watched request
+ * shares one EventSource, reopened when the set of requests changes. If
+ * the stream can't be opened, e.g. under the Vite dev server, watchers
+ * are told to poll instead, and new ones poll until a cooldown passes.
+ * The cooldown doubles each time the stream fails again.
+ */
+
+import {
+  SharpError,
+  SharpResult,
+  SplatProvider,
+  SplatStage,
+  SplatStatus,
+  StatusListener,
+} from './splatProvider'
+
+const STAGES: SplatStage[] = ['queued', 'inferring', 'storing']
+// Failed connections in a row before the stream is given up on
+const MAX_STREAM_ERRORS = 3
+// ms to poll for before trying the stream again, doubling up to the max
+const STREAM_COOLDOWN = 15 * 1000
+const MAX_STREAM_COOLDOWN = 5 * 60 * 1000
+const hasEventSource = typeof EventSource !== 'undefined'
+
+const watchers: Map<string, Set<StatusListener>> = new Map()
+let eventSource: EventSource | null = null
+let streamedIds = ''
+let streamErrors = 0
+let streamCooldown = STREAM_COOLDOWN
+// Until then watchers poll, the stream failed recently
+let streamRetryAt = 0
+let reopenScheduled = false
+
+export const sharpProvider: SplatProvider = {
+  async submit(input, signal) {
+    let response: Response
+    if ('imageUrl' in input) {
+      response = await fetch('/api/sharp/submit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ imageUrl: input.imageUrl }),
+        signal,
+      })
+    } else {
+      const formData = new FormData()
+      formData.append('file', input.blob, input.filename)
+      response = await fetch('/api/sharp/submit-file', {
+        method: 'POST',
+        body: formData,
+        signal,
+      })
+    }
+
+    if (!response.ok) throw await toSubmitError(response)
+
+    const json = await response.json()
+    return json.request_id as string
+  },
+
+  async status(requestId, signal) {
+    const response = await fetch(
+      `/api/sharp/status?request_id=${encodeURIComponent(requestId)}`,
+      { cache: 'no-store', signal }
+    )
+    if (!response.ok) {
+      throw new SharpError(`Sharp status failed: ${response.status}`, {
+        status: response.status,
+        requestId,
+      })
+    }
+
+    return toSplatStatus(await response.json())
+  },
+
+  watch(requestId, listener) {
+    if (!isStreamAvailable()) {
+      queueMicrotask(() => listener(null))
+      return () => {}
+    }
+
+    let listeners = watchers.get(requestId)
+    if (!listeners) {
+      listeners = new Set()
+      watchers.set(requestId, listeners)
+    }
+    listeners.add(listener)
+    scheduleReopen()
+
+    return () => {
+      listeners.delete(listener)
+      if (listeners.size === 0 && watchers.get(requestId) === listeners) {
+        watchers.delete(requestId)
+      }
+      scheduleReopen()
+    }
+  },
+
+  async result(requestId, signal) {
+    const response = await fetch(
+      `/api/sharp/result?request_id=${encodeURIComponent(requestId)}`,
+      { signal }
+    )
+    if (!response.ok) {
+      throw new SharpError('Failed to get result', { status: response.status, requestId })
+    }
+
+    const result = await response.json()
+    return {
+      plyUrl: result.ply_url,
+      filename: result.filename,
+      sizeBytes: result.size_bytes,
+    } as SharpResult
+  },
+
+  async cancel(requestId) {
+    const response = await fetch('/api/sharp/cancel', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ request_id: requestId }),
+    })
+    if (!response.ok) {
+      throw new SharpError(`Sharp cancel failed: ${response.status}`, {
+        status: response.status,
+        requestId,
+      })
+    }
+  },
+}
+
+/**
+ * Reopen the stream for the watched requests once the current task is
+ * done, so a batch of watch calls opens it once
+ */
+function scheduleReopen() {
+  if (reopenScheduled) return
+  reopenScheduled = true
+  queueMicrotask(() => {
+    reopenScheduled = false
+    reopenStream()
+  })
+}
+
+function isStreamAvailable() {
+  return hasEventSource && Date.now() >= streamRetryAt
+}
+
+function reopenStream() {
+  const ids = Array.from(watchers.keys()).sort().join(',')
+  if (eventSource && ids === streamedIds) return
+
+  eventSource?.close()
+  eventSource = null
+  streamedIds = ids
+  if (!ids || !isStreamAvailable()) return
+
+  const source = new EventSource(`/api/sharp/events?request_id=${encodeURIComponent(ids)}`)
+  eventSource = source
+
+  source.addEventListener('open', () => {
+    streamErrors = 0
+    streamCooldown = STREAM_COOLDOWN
+  })
+
+  source.addEventListener('status', (event) => {
+    const json = JSON.parse((event as MessageEvent).data)
+    const status = toSplatStatus(json)
+    watchers.get(json.request_id)?.forEach((listener) => listener(status))
+  })
+
+  // No job is running any more, requests the server doesn't know go back
+  // to polling
+  source.addEventListener('done', () => {
+    closeStream(source)
+  })
+
+  // EventSource reconnects by itself after dropped connections, but not
+  // after the server refused it
+  source.addEventListener('error', () => {
+    streamErrors++
+    if (source.readyState !== EventSource.CLOSED && streamErrors < MAX_STREAM_ERRORS) return
+
+    console.warn(
+      `[sharpProvider] Event stream unavailable, polling for ${streamCooldown / 1000}s`
+    )
+    streamErrors = 0
+    streamRetryAt = Date.now() + streamCooldown
+    streamCooldown = Math.min(MAX_STREAM_COOLDOWN, streamCooldown * 2)
+    closeStream(source)
+  })
+}
+
+/**
+ * Close the stream and tell everyone watching through it to poll
+ */
+function closeStream(source: EventSource) {
+  source.close()
+  if (eventSource !== source) return
+
+  eventSource = null
+  streamedIds = ''
+  const listeners = Array.from(watchers.values())
+  watchers.clear()
+  listeners.forEach((set) => set.forEach((listener) => listener(null)))
+}
+
+/**
+ * Status from the fields the status route and events stream report
+ */
+function toSplatStatus(json: any): SplatStatus {
+  return {
+    status: json.status,
+    // Finished jobs, and ones from before stages, report their status
+    stage: STAGES.includes(json.stage) ? json.stage : undefined,
+    progress: json.progress ?? undefined,
+    error: json.error,
+  }
+}
+
+/**
+ * Turn a failed submit response into a SharpError, keeping the request ID
+ * the API reports even for failures
+ */
+async function toSubmitError(response: Response): Promise<SharpError> {
+  const text = await response.text()
+  let requestId: string | undefined
+  let message = text
+  try {
+    const json = JSON.parse(text)
+    requestId = json.request_id
+    message = json.error ?? text
+  } catch (e) {}
+
+  return new SharpError(`Sharp submit failed: ${message}`, {
+    status: response.status,
+    requestId,
+  })
+}
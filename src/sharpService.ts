@@ -1,18 +1,52 @@
 /**
  * Sharp Service - Image to Gaussian Splat conversion
  *
- * Calls the Sharp API endpoints (Vercel serverless functions) to convert
- * images into 3D Gaussian splats via Modal GPU inference.
+ * Submits images and waits for their splats through a SplatProvider: the
+ * Sharp API (Vercel serverless functions running Sharp on Modal), or the
+ * offline mock. VITE_SPLAT_PROVIDER=mock picks the mock.
  */
 
+import { mockProvider } from './mockProvider'
+import { sharpProvider } from './sharpProvider'
+import { SharpError, SharpResult, SplatProvider, SplatStage, SplatStatus } from './splatProvider'
+
 export interface SharpOptions {
   quality?: 'fast' | 'high'
 }
 
-export interface SharpResult {
-  plyUrl: string
-  filename: string
-  sizeBytes: number
+export type ProviderName = 'sharp' | 'mock'
+
+export const providerSettings: { provider: ProviderName } = {
+  provider: import.meta.env.VITE_SPLAT_PROVIDER === 'mock' ? 'mock' : 'sharp',
+}
+
+const providers: Record<ProviderName, SplatProvider> = {
+  sharp: sharpProvider,
+  mock: mockProvider,
+}
+
+/**
+ * Provider that new generations go to
+ */
+function getProvider(): SplatProvider {
+  return providers[providerSettings.provider]
+}
+
+/**
+ * Provider a generation was submitted to, which may not be the current
+ * one after the setting changed
+ */
+function getProviderFor(requestId: string): SplatProvider {
+  return requestId.startsWith('mock_') ? mockProvider : sharpProvider
+}
+
+// Jobs wait for a worker, which may run for up to 5 minutes
+const DEFAULT_TIMEOUT = 6 * 60 * 1000
+
+const STAGE_LABELS: Record<SplatStage, string> = {
+  queued: 'Waiting for a worker',
+  inferring: 'Generating splat',
+  storing: 'Saving splat',
 }
 
 // Track active generations
@@ -30,20 +64,8 @@ export const sharpService = {
   /**
    * Submit an image URL for Gaussian splat generation
    */
-  async submit(imageUrl: string): Promise<string> {
-    const response = await fetch('/api/sharp/submit', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ imageUrl }),
-    })
-
-    if (!response.ok) {
-      const text = await response.text()
-      throw new Error(`Sharp submit failed: ${text}`)
-    }
-
-    const json = await response.json()
-    const requestId = json.request_id as string
+  async submit(imageUrl: string, signal?: AbortSignal): Promise<string> {
+    const requestId = await getProvider().submit({ imageUrl }, signal)
 
     activeGenerations.set(requestId, {
       requestId,
@@ -58,22 +80,8 @@ export const sharpService = {
   /**
    * Submit a file blob directly
    */
-  async submitBlob(blob: Blob, filename: string): Promise<string> {
-    const formData = new FormData()
-    formData.append('file', blob, filename)
-
-    const response = await fetch('/api/sharp/submit-file', {
-      method: 'POST',
-      body: formData,
-    })
-
-    if (!response.ok) {
-      const text = await response.text()
-      throw new Error(`Sharp submit failed: ${text}`)
-    }
-
-    const json = await response.json()
-    const requestId = json.request_id as string
+  async submitBlob(blob: Blob, filename: string, signal?: AbortSignal): Promise<string> {
+    const requestId = await getProvider().submit({ blob, filename }, signal)
 
     activeGenerations.set(requestId, {
       requestId,
@@ -85,6 +93,16 @@ export const sharpService = {
     return requestId
   },
 
+  /**
+   * Ask the provider to drop a generation. Sharp can't stop inference
+   * that has started, but stops reporting on it.
+   */
+  async cancel(requestId: string): Promise<void> {
+    activeGenerations.delete(requestId)
+    await getProviderFor(requestId).cancel(requestId)
+    console.log('[sharpService] Cancelled:', requestId)
+  },
+
   /**
    * Set photo ID for tracking
    */
@@ -101,69 +119,75 @@ export const sharpService = {
   },
 
   /**
-   * Wait for generation to complete
+   * Wait for generation to complete. Aborting the signal stops waiting
+   * and rejects. A job that failed rejects with a SharpError right away,
+   * polls that fail are retried until the timeout.
+   *
+   * Providers that push status changes are listened to until the job
+   * finishes, then polled once for the outcome. Polling takes over when
+   * the pushed updates stop.
    */
   async waitForResult(
     requestId: string,
-    timeoutMs = 3 * 60 * 1000,
-    onProgress?: (msg: string) => void
+    timeoutMs = DEFAULT_TIMEOUT,
+    onProgress?: (msg: string) => void,
+    signal?: AbortSignal
   ): Promise<SharpResult> {
     const start = Date.now()
     const sleep = (ms: number) => new Promise(r => setTimeout(r, ms))
     let attempt = 0
+    let failure: SharpError | null = null
+
+    const watched = getProviderFor(requestId)
+    if (watched.watch) {
+      signal?.throwIfAborted()
+      await watchUntilSettled(watched, requestId, timeoutMs, (status) => {
+        const elapsed = Math.round((Date.now() - start) / 1000)
+        onProgress?.(formatProgress(status, elapsed))
+      }, signal)
+    }
 
     while (Date.now() - start < timeoutMs) {
+      signal?.throwIfAborted()
       attempt++
       const elapsed = Math.round((Date.now() - start) / 1000)
 
       try {
-        const statusRes = await fetch(
-          `/api/sharp/status?request_id=${encodeURIComponent(requestId)}`,
-          { cache: 'no-store' }
-        )
-
-        if (statusRes.ok) {
-          const status = await statusRes.json()
-
-          if (onProgress) {
-            if (status.status === 'pending' || status.status === 'processing') {
-              onProgress(`Generating splat... (${elapsed}s)`)
-            }
-          }
-
-          if (status.status === 'completed') {
-            const resultRes = await fetch(
-              `/api/sharp/result?request_id=${encodeURIComponent(requestId)}`
-            )
-
-            if (!resultRes.ok) {
-              throw new Error('Failed to get result')
-            }
+        const provider = getProviderFor(requestId)
+        const status = await provider.status(requestId, signal)
 
-            const result = await resultRes.json()
-            activeGenerations.delete(requestId)
-
-            return {
-              plyUrl: result.ply_url,
-              filename: result.filename,
-              sizeBytes: result.size_bytes,
-            }
+        if (onProgress) {
+          if (status.status === 'pending' || status.status === 'processing') {
+            onProgress(formatProgress(status, elapsed))
           }
+        }
 
-          if (status.status === 'failed') {
-            activeGenerations.delete(requestId)
-            throw new Error(status.error || 'Generation failed')
-          }
+        if (status.status === 'completed') {
+          const result = await provider.result(requestId, signal)
+          activeGenerations.delete(requestId)
+          return result
+        }
+
+        if (status.status === 'failed' || status.status === 'cancelled') {
+          activeGenerations.delete(requestId)
+          failure = new SharpError(status.error || `Generation ${status.status}`, {
+            requestId,
+            isJobFailure: status.status === 'failed',
+          })
         }
       } catch (err) {
+        if (signal?.aborted) throw err
         console.warn(`[sharpService] Poll ${attempt} failed, retrying...`)
       }
 
+      // Outside the try, polling again won't change the outcome
+      if (failure) throw failure
+
       const backoff = Math.min(5000, 1000 + attempt * 200)
       await sleep(backoff)
     }
 
-    throw new Error('sharp_timeout')
+    throw new SharpError('sharp_timeout', { requestId })
   },
 
   /**
@@ -174,7 +198,7 @@ export const sharpService = {
     onProgress?: (msg: string) => void
   ): Promise<SharpResult> {
     const requestId = await this.submit(imageUrl)
-    return this.waitForResult(requestId, 3 * 60 * 1000, onProgress)
+    return this.waitForResult(requestId, DEFAULT_TIMEOUT, onProgress)
   },
 
   /**
@@ -186,7 +210,7 @@ export const sharpService = {
     onProgress?: (msg: string) => void
   ): Promise<SharpResult> {
     const requestId = await this.submitBlob(blob, filename)
-    return this.waitForResult(requestId, 3 * 60 * 1000, onProgress)
+    return this.waitForResult(requestId, DEFAULT_TIMEOUT, onProgress)
   },
 
   /**
@@ -201,7 +225,7 @@ export const sharpService = {
    */
   cleanupStale(): void {
     const now = Date.now()
-    const staleThreshold = 5 * 60 * 1000
+    const staleThreshold = DEFAULT_TIMEOUT
 
     for (const [requestId, gen] of activeGenerations.entries()) {
       if (now - gen.startTime > staleThreshold) {
@@ -210,3 +234,49 @@ export const sharpService = {
     }
   },
 }
+
+/**
+ * Resolves once a watched job is no longer pending or processing, the
+ * provider stops pushing updates, or timeoutMs passes. Rejects when the
+ * signal aborts.
+ */
+function watchUntilSettled(
+  provider: SplatProvider,
+  requestId: string,
+  timeoutMs: number,
+  onStatus: (status: SplatStatus) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const settle = (err?: unknown) => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+      unwatch()
+      if (err) reject(err)
+      else resolve()
+    }
+    const onAbort = () => settle(signal?.reason)
+
+    const timer = setTimeout(() => settle(), timeoutMs)
+    signal?.addEventListener('abort', onAbort, { once: true })
+    const unwatch = provider.watch!(requestId, (status) => {
+      if (status?.status === 'pending' || status?.status === 'processing') {
+        onStatus(status)
+      } else {
+        settle()
+      }
+    })
+  })
+}
+
+/**
+ * Progress message for a running job, from its stage when the provider
+ * reports one
+ */
+function formatProgress(status: SplatStatus, elapsed: number): string {
+  if (!status.stage) return `Generating splat... (${elapsed}s)`
+
+  const label = STAGE_LABELS[status.stage]
+  if (status.progress === undefined) return `${label}... (${elapsed}s)`
+  return `${label}... ${Math.round(status.progress * 100)}%`
+}
@@ -0,0 +1,77 @@
+/**
+ * Splat Cleaner - Main thread side of the splat cleanup filters
+ *
+ * One per edit session. The PLY is sent to cleanupWorker.ts once, then
+ * each filter request returns a complete cleaned PLY.
+ */
+
+import { CleanupResult, SplatCleanup } from './splatCleanup'
+import type { CleanupRequest, CleanupResponse } from './cleanupWorker'
+import { DistributiveOmit } from './types/types'
+
+type CleanupMessage = DistributiveOmit<CleanupRequest, 'id'>
+
+export default class SplatCleaner {
+  worker: Worker
+  nextRequestId: number = 0
+  pending: Map<
+    number,
+    { resolve: (response: CleanupResponse) => void; reject: (err: Error) => void }
+  > = new Map()
+
+  constructor() {
+    this.worker = new Worker(new URL('./cleanupWorker.ts', import.meta.url), {
+      type: 'module',
+    })
+    this.worker.onmessage = (event: MessageEvent<CleanupResponse>) =>
+      this.onMessage(event.data)
+    this.worker.onerror = (event) => {
+      console.error('[SplatCleaner] Worker failed:', event.message)
+      this.rejectAll(new Error(event.message || 'Cleanup worker failed'))
+    }
+  }
+
+  /**
+   * Hand the original PLY to the worker. It is copied, the caller keeps it.
+   */
+  load(data: ArrayBuffer) {
+    return this.request({ type: 'load', data }).then(() => {})
+  }
+
+  async filter(cleanup: SplatCleanup): Promise<CleanupResult> {
+    const { data, kept = 0, total = 0 } = await this.request({ type: 'filter', cleanup })
+    if (!data) throw new Error('Cleanup returned no data')
+    return { data, kept, total }
+  }
+
+  request(message: CleanupMessage) {
+    const id = this.nextRequestId++
+
+    return new Promise<CleanupResponse>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject })
+      this.worker.postMessage({ ...message, id })
+    })
+  }
+
+  onMessage(response: CleanupResponse) {
+    const pending = this.pending.get(response.id)
+    this.pending.delete(response.id)
+    if (!pending) return
+
+    if (response.error) {
+      pending.reject(new Error(response.error))
+    } else {
+      pending.resolve(response)
+    }
+  }
+
+  rejectAll(err: Error) {
+    this.pending.forEach(({ reject }) => reject(err))
+    this.pending.clear()
+  }
+
+  dispose() {
+    this.worker.terminate()
+    this.rejectAll(new Error('Splat cleaner disposed'))
+  }
+}
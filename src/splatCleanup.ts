@@ -0,0 +1,314 @@
+/**
+ * Splat Cleanup - Remove floaters and smear from Gaussian splat PLYs
+ *
+ * Three filters, applied together: a crop box, a minimum opacity, and a
+ * statistical outlier filter that drops Gaussians whose nearest neighbours
+ * are much further away than is usual for the splat. Kept Gaussians are
+ * written out as a new PLY, byte for byte as they were.
+ */
+
+import { createReader, parsePlyHeader, PlyHeader } from './plyParser'
+
+export interface SplatCleanup {
+  // Box to keep, in the splat's own coordinates. Null keeps everything.
+  crop: { min: [number, number, number]; max: [number, number, number] } | null
+  // 0 to 1, Gaussians more transparent than this are dropped
+  minOpacity: number
+  // Null turns the outlier filter off
+  outliers: {
+    // How many nearest neighbours a Gaussian is measured against
+    neighbours: number
+    // Standard deviations above the mean distance that count as an outlier
+    stdRatio: number
+  } | null
+}
+
+export interface CleanupResult {
+  data: ArrayBuffer
+  kept: number
+  total: number
+}
+
+// Mean distance from each Gaussian to its nearest neighbours
+export interface NeighbourDistances {
+  distances: Float32Array
+  mean: number
+  std: number
+}
+
+export const DEFAULT_CLEANUP: SplatCleanup = {
+  crop: null,
+  minOpacity: 0,
+  outliers: null,
+}
+
+const MAX_GRID_CELLS = 1023 // per axis, so cell keys fit in 30 bits
+const INDEX_BITS = 2 ** 22 // up to 4M Gaussians share a key with their index
+// Gaussians per occupied grid cell, as a share of the neighbour count.
+// Splats are mostly surfaces, so the 3x3 cells around a Gaussian on its
+// surface hold about three times the neighbour count.
+const CELL_OCCUPANCY = 1 / 3
+
+/**
+ * Which Gaussians survive the cleanup, one flag per vertex
+ */
+export function getKeptMask(
+  buffer: ArrayBuffer,
+  cleanup: SplatCleanup,
+  neighbours: NeighbourDistances | null
+): Uint8Array {
+  const header = parsePlyHeader(buffer)
+  const read = createReader(new DataView(buffer, header.dataOffset), header)
+  const x = read('x')!
+  const y = read('y')!
+  const z = read('z')!
+  const opacity = read('opacity')
+
+  // Compare before the sigmoid, it's monotonic
+  const minLogit =
+    cleanup.minOpacity > 0
+      ? Math.log(cleanup.minOpacity / Math.max(1e-6, 1 - cleanup.minOpacity))
+      : -Infinity
+  const maxDistance =
+    cleanup.outliers && neighbours
+      ? neighbours.mean + cleanup.outliers.stdRatio * neighbours.std
+      : Infinity
+
+  const { crop } = cleanup
+  const kept = new Uint8Array(header.vertexCount)
+
+  for (let i = 0; i < header.vertexCount; i++) {
+    if (crop) {
+      const px = x(i)
+      const py = y(i)
+      const pz = z(i)
+      if (
+        px < crop.min[0] || px > crop.max[0] ||
+        py < crop.min[1] || py > crop.max[1] ||
+        pz < crop.min[2] || pz > crop.max[2]
+      ) continue
+    }
+    if (opacity && opacity(i) < minLogit) continue
+    if (neighbours && neighbours.distances[i] > maxDistance) continue
+    kept[i] = 1
+  }
+
+  return kept
+}
+
+/**
+ * Copy the kept Gaussians into a new PLY with the same properties
+ */
+export function writeCleanedPly(buffer: ArrayBuffer, kept: Uint8Array): CleanupResult {
+  const header = parsePlyHeader(buffer)
+  const { vertexCount, vertexSize, dataOffset, headerSize } = header
+  const keptCount = kept.reduce((sum, flag) => sum + flag, 0)
+
+  const headerText = new TextDecoder()
+    .decode(new Uint8Array(buffer, 0, headerSize))
+    .replace(/element vertex \d+/, `element vertex ${keptCount}`)
+  const headerBytes = new TextEncoder().encode(headerText)
+
+  // Elements stored before and after the vertices are kept as they are
+  const before = new Uint8Array(buffer, headerSize, dataOffset - headerSize)
+  const afterStart = dataOffset + vertexCount * vertexSize
+  const after = new Uint8Array(buffer, Math.min(afterStart, buffer.byteLength))
+
+  const output = new Uint8Array(
+    headerBytes.length + before.length + keptCount * vertexSize + after.length
+  )
+  output.set(headerBytes, 0)
+  output.set(before, headerBytes.length)
+
+  const source = new Uint8Array(buffer, dataOffset, vertexCount * vertexSize)
+  let offset = headerBytes.length + before.length
+  for (let i = 0; i < vertexCount; i++) {
+    if (!kept[i]) continue
+    output.set(source.subarray(i * vertexSize, (i + 1) * vertexSize), offset)
+    offset += vertexSize
+  }
+  output.set(after, offset)
+
+  return { data: output.buffer, kept: keptCount, total: vertexCount }
+}
+
+/**
+ * Mean distance from every Gaussian to its nearest neighbours, found
+ * approximately through a uniform grid. Neighbours that aren't within the
+ * surrounding cells count as two cells away, so isolated Gaussians score
+ * high.
+ */
+export function getNeighbourDistances(
+  buffer: ArrayBuffer,
+  neighbours: number
+): NeighbourDistances {
+  const header = parsePlyHeader(buffer)
+  const positions = readPositions(buffer, header)
+  const count = header.vertexCount
+
+  const target = Math.max(1, neighbours * CELL_OCCUPANCY)
+  let grid = buildGrid(positions, count, estimateCellSize(positions, count, target))
+  // The first guess assumes Gaussians fill their bounds, correct it for
+  // how they really spread
+  const perCell = count / Math.max(1, grid.cells.size)
+  grid = buildGrid(positions, count, grid.cellSize * Math.sqrt(target / perCell))
+
+  const { cellSize, cells, indices, dims, origin } = grid
+  const missing = cellSize * 2
+  const maxScan = Math.ceil(neighbours / 2)
+  // Squared, the square root is only taken of the nearest
+  const nearest = new Float64Array(neighbours)
+  const distances = new Float32Array(count)
+
+  for (let i = 0; i < count; i++) {
+    const px = positions[i * 3]
+    const py = positions[i * 3 + 1]
+    const pz = positions[i * 3 + 2]
+    const cx = cellCoord(px, origin[0], cellSize, dims[0])
+    const cy = cellCoord(py, origin[1], cellSize, dims[1])
+    const cz = cellCoord(pz, origin[2], cellSize, dims[2])
+
+    nearest.fill(Infinity)
+
+    for (let dz = -1; dz <= 1; dz++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = cx + dx
+          const ny = cy + dy
+          const nz = cz + dz
+          if (nx < 0 || ny < 0 || nz < 0 || nx >= dims[0] || ny >= dims[1] || nz >= dims[2]) {
+            continue
+          }
+          const cell = cells.get(nx + dims[0] * (ny + dims[1] * nz))
+          if (!cell) continue
+
+          // Busy cells are sampled evenly rather than scanned in full
+          const start = cell[0]
+          const end = cell[1]
+          const stride = Math.max(1, Math.floor((end - start) / maxScan))
+          for (let k = start; k < end; k += stride) {
+            const j = indices[k]
+            if (j === i) continue
+            const ox = positions[j * 3] - px
+            const oy = positions[j * 3 + 1] - py
+            const oz = positions[j * 3 + 2] - pz
+            insertNearest(nearest, ox * ox + oy * oy + oz * oz)
+          }
+        }
+      }
+    }
+
+    let sum = 0
+    for (let k = 0; k < neighbours; k++) {
+      sum += Math.min(Math.sqrt(nearest[k]), missing)
+    }
+    distances[i] = sum / neighbours
+  }
+
+  let mean = 0
+  for (let i = 0; i < count; i++) mean += distances[i]
+  mean /= Math.max(1, count)
+
+  let variance = 0
+  for (let i = 0; i < count; i++) variance += (distances[i] - mean) ** 2
+  const std = Math.sqrt(variance / Math.max(1, count))
+
+  return { distances, mean, std }
+}
+
+function readPositions(buffer: ArrayBuffer, header: PlyHeader) {
+  const read = createReader(new DataView(buffer, header.dataOffset), header)
+  const x = read('x')
+  const y = read('y')
+  const z = read('z')
+  if (!x || !y || !z) throw new Error('PLY vertices have no position')
+  if (header.vertexCount > INDEX_BITS) throw new Error('Too many Gaussians to filter')
+
+  const positions = new Float32Array(header.vertexCount * 3)
+  for (let i = 0; i < header.vertexCount; i++) {
+    positions[i * 3] = x(i)
+    positions[i * 3 + 1] = y(i)
+    positions[i * 3 + 2] = z(i)
+  }
+  return positions
+}
+
+/**
+ * Cell size that would hold about `neighbours` Gaussians each if they
+ * filled their bounds evenly
+ */
+function estimateCellSize(positions: Float32Array, count: number, neighbours: number) {
+  const { min, max } = getBounds(positions, count)
+  const extent = [0, 1, 2].map((axis) => Math.max(max[axis] - min[axis], 1e-6))
+  const volume = extent[0] * extent[1] * extent[2]
+  return Math.cbrt((volume / Math.max(1, count)) * neighbours)
+}
+
+/**
+ * Sort Gaussians into grid cells. Each entry of order packs a cell key
+ * with a Gaussian index so a single numeric sort groups them by cell.
+ */
+function buildGrid(positions: Float32Array, count: number, requestedSize: number) {
+  const { min, max } = getBounds(positions, count)
+  const largest = Math.max(max[0] - min[0], max[1] - min[1], max[2] - min[2], 1e-6)
+  const cellSize = Math.max(requestedSize, largest / MAX_GRID_CELLS)
+  const dims = [0, 1, 2].map((axis) =>
+    Math.min(MAX_GRID_CELLS, Math.floor((max[axis] - min[axis]) / cellSize) + 1)
+  )
+
+  const order = new Float64Array(count)
+  for (let i = 0; i < count; i++) {
+    const cx = cellCoord(positions[i * 3], min[0], cellSize, dims[0])
+    const cy = cellCoord(positions[i * 3 + 1], min[1], cellSize, dims[1])
+    const cz = cellCoord(positions[i * 3 + 2], min[2], cellSize, dims[2])
+    order[i] = (cx + dims[0] * (cy + dims[1] * cz)) * INDEX_BITS + i
+  }
+  order.sort()
+
+  // Start and end of each occupied cell's run in order
+  const cells: Map<number, [number, number]> = new Map()
+  let start = 0
+  for (let k = 1; k <= count; k++) {
+    const key = Math.floor(order[start] / INDEX_BITS)
+    if (k === count || Math.floor(order[k] / INDEX_BITS) !== key) {
+      cells.set(key, [start, k])
+      start = k
+    }
+  }
+
+  // Gaussian indices in cell order
+  const indices = new Uint32Array(count)
+  for (let k = 0; k < count; k++) indices[k] = order[k] % INDEX_BITS
+
+  return { cellSize, cells, indices, dims, origin: min }
+}
+
+function getBounds(positions: Float32Array, count: number) {
+  const min = [Infinity, Infinity, Infinity]
+  const max = [-Infinity, -Infinity, -Infinity]
+  for (let i = 0; i < count; i++) {
+    for (let axis = 0; axis < 3; axis++) {
+      const value = positions[i * 3 + axis]
+      if (value < min[axis]) min[axis] = value
+      if (value > max[axis]) max[axis] = value
+    }
+  }
+  return { min, max }
+}
+
+function cellCoord(value: number, origin: number, cellSize: number, dim: number) {
+  return Math.min(dim - 1, Math.floor((value - origin) / cellSize))
+}
+
+// Keep the smallest distances seen so far, sorted ascending
+function insertNearest(nearest: Float64Array, distance: number) {
+  const last = nearest.length - 1
+  if (distance >= nearest[last]) return
+
+  let k = last
+  while (k > 0 && nearest[k - 1] > distance) {
+    nearest[k] = nearest[k - 1]
+    k--
+  }
+  nearest[k] = distance
+}
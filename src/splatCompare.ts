@@ -0,0 +1,224 @@
+/**
+ * Splat Compare - Source photo overlay for the splat viewer's compare mode
+ *
+ * Lays the photo a splat was made from over the viewer, fitted to the
+ * screen the way the camera sees it, so the splat rendered from the
+ * photo's own pose lines up underneath. A draggable divider wipes between
+ * the two, and the photo can be shown as an onion skin or as the
+ * difference from the splat.
+ */
+
+// How the photo is drawn over the splat
+export type CompareBlend = 'normal' | 'onion' | 'difference'
+
+export interface PhotoBox {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+const BLENDS: CompareBlend[] = ['normal', 'onion', 'difference']
+const BLEND_LABELS: Record<CompareBlend, string> = {
+  normal: 'Photo',
+  onion: 'Onion skin',
+  difference: 'Difference',
+}
+const ONION_OPACITY = 0.5
+const DIVIDER_WIDTH = 24 // px, the line itself is 2px
+
+export default class SplatCompare {
+  container: HTMLElement
+  frame: HTMLElement
+  image: HTMLImageElement
+  divider: HTMLElement
+  blendBtn: HTMLButtonElement
+  isActive: boolean = false
+  blend: CompareBlend = 'normal'
+  // Share of the photo's width shown, from its left edge
+  split: number = 0.5
+  // Photo width over height, once one is shown
+  aspect: number = 1
+  // Called when the photo's box on screen changes size
+  onLayout: (() => void) | null = null
+
+  constructor(container: HTMLElement) {
+    this.container = container
+
+    // Above the viewer layers, below the buttons
+    this.frame = document.createElement('div')
+    this.frame.id = 'splat-compare'
+    this.frame.style.cssText = `
+      position: absolute;
+      z-index: 1000;
+      pointer-events: none;
+      display: none;
+    `
+    this.image = document.createElement('img')
+    this.image.alt = ''
+    this.image.style.cssText = 'width: 100%; height: 100%; display: block;'
+    this.frame.appendChild(this.image)
+
+    this.divider = document.createElement('div')
+    // Dragging it must not count as a swipe
+    this.divider.dataset.noSwipe = ''
+    this.divider.style.cssText = `
+      position: absolute;
+      width: ${DIVIDER_WIDTH}px;
+      margin-left: -${DIVIDER_WIDTH / 2}px;
+      cursor: ew-resize;
+      touch-action: none;
+      z-index: 1001;
+      display: none;
+    `
+    const line = document.createElement('div')
+    line.style.cssText = `
+      position: absolute;
+      top: 0;
+      bottom: 0;
+      left: ${DIVIDER_WIDTH / 2 - 1}px;
+      width: 2px;
+      background: #fff;
+      box-shadow: 0 0 4px rgba(0,0,0,0.4);
+    `
+    this.divider.appendChild(line)
+    this.bindDivider()
+
+    this.blendBtn = document.createElement('button')
+    this.blendBtn.title = 'Photo, onion skin or difference (B)'
+    this.blendBtn.style.cssText = `
+      position: absolute;
+      top: 20px;
+      left: 50%;
+      transform: translateX(-50%);
+      padding: 8px 14px;
+      border: none;
+      background: rgba(0,0,0,0.1);
+      border-radius: 20px;
+      font-size: 13px;
+      cursor: pointer;
+      color: #333;
+      z-index: 1001;
+      display: none;
+    `
+    this.blendBtn.onclick = () => this.cycleBlend()
+
+    container.append(this.frame, this.divider, this.blendBtn)
+    window.addEventListener('resize', () => {
+      if (!this.isActive) return
+      this.layout()
+      this.onLayout?.()
+    })
+  }
+
+  /**
+   * Download and decode a photo, resolving with its aspect ratio
+   */
+  async loadPhoto(url: string): Promise<number> {
+    const image = new Image()
+    image.src = url
+    await image.decode()
+    return image.naturalWidth / Math.max(1, image.naturalHeight)
+  }
+
+  /**
+   * Show a photo loaded with loadPhoto over the viewer. Null keeps compare
+   * mode on for a splat without a photo, showing the splat alone.
+   */
+  show(photo: { url: string; aspect: number } | null) {
+    this.isActive = true
+    const display = photo ? 'block' : 'none'
+    this.frame.style.display = display
+    this.divider.style.display = display
+    this.blendBtn.style.display = display
+    if (!photo) return
+
+    this.aspect = photo.aspect
+    this.image.src = photo.url
+    this.updateBlend()
+    this.layout()
+  }
+
+  close() {
+    this.isActive = false
+    this.frame.style.display = 'none'
+    this.divider.style.display = 'none'
+    this.blendBtn.style.display = 'none'
+    this.image.removeAttribute('src')
+  }
+
+  /**
+   * Where the photo sits on screen: as large as fits, centred
+   */
+  getBox(aspect = this.aspect): PhotoBox {
+    const bounds = this.container.getBoundingClientRect()
+    const width = Math.min(bounds.width, bounds.height * aspect)
+    const height = width / aspect
+    return {
+      left: (bounds.width - width) / 2,
+      top: (bounds.height - height) / 2,
+      width,
+      height,
+    }
+  }
+
+  /**
+   * Vertical field of view, in degrees, that a camera filling the
+   * container needs for the photo's view to fill the photo's box
+   */
+  getCameraFov(tanHalfHeight: number, aspect = this.aspect): number {
+    const bounds = this.container.getBoundingClientRect()
+    const box = this.getBox(aspect)
+    const tan = (tanHalfHeight * bounds.height) / Math.max(1, box.height)
+    return (2 * Math.atan(tan) * 180) / Math.PI
+  }
+
+  layout() {
+    const { left, top, width, height } = this.getBox()
+    Object.assign(this.frame.style, {
+      left: `${left}px`,
+      top: `${top}px`,
+      width: `${width}px`,
+      height: `${height}px`,
+      clipPath: `inset(0 ${(1 - this.split) * 100}% 0 0)`,
+    })
+    Object.assign(this.divider.style, {
+      left: `${left + width * this.split}px`,
+      top: `${top}px`,
+      height: `${height}px`,
+    })
+  }
+
+  cycleBlend() {
+    this.blend = BLENDS[(BLENDS.indexOf(this.blend) + 1) % BLENDS.length]
+    this.updateBlend()
+  }
+
+  updateBlend() {
+    this.frame.style.opacity = this.blend === 'onion' ? String(ONION_OPACITY) : '1'
+    this.frame.style.mixBlendMode = this.blend === 'difference' ? 'difference' : 'normal'
+    this.blendBtn.textContent = BLEND_LABELS[this.blend]
+  }
+
+  bindDivider() {
+    let pointerId: number | null = null
+
+    this.divider.addEventListener('pointerdown', (e) => {
+      pointerId = e.pointerId
+      this.divider.setPointerCapture(e.pointerId)
+      e.stopPropagation()
+    })
+    this.divider.addEventListener('pointermove', (e) => {
+      if (e.pointerId !== pointerId) return
+      const box = this.getBox()
+      const x = e.clientX - this.container.getBoundingClientRect().left
+      this.split = Math.min(1, Math.max(0, (x - box.left) / box.width))
+      this.layout()
+    })
+    const release = (e: PointerEvent) => {
+      if (e.pointerId === pointerId) pointerId = null
+    }
+    this.divider.addEventListener('pointerup', release)
+    this.divider.addEventListener('pointercancel', release)
+  }
+}
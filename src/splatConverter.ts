@@ -0,0 +1,70 @@
+/**
+ * Splat Converter - Main thread side of the PLY to .ksplat converter
+ *
+ * One worker, started on first use, converts files one at a time in the
+ * order they were asked for. See converterWorker.ts for the conversion.
+ */
+
+import { reviveStats, SplatStats } from './plyParser'
+import type { ConvertOptions, ConvertRequest, ConvertResponse } from './converterWorker'
+
+export interface ConvertResult {
+  data: ArrayBuffer
+  // Null when the PLY's stats could not be read
+  stats: SplatStats | null
+}
+
+let worker: Worker | null = null
+let nextRequestId = 0
+const pending: Map<
+  number,
+  { resolve: (result: ConvertResult) => void; reject: (err: Error) => void }
+> = new Map()
+
+/**
+ * Convert a PLY file into a .ksplat file. The PLY is copied to the
+ * worker, so the caller can keep using it.
+ */
+export function convertToKSplat(
+  data: ArrayBuffer,
+  options: ConvertOptions
+): Promise<ConvertResult> {
+  const id = nextRequestId++
+
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject })
+    const request: ConvertRequest = { id, data, options }
+    getWorker().postMessage(request)
+  })
+}
+
+function getWorker() {
+  if (worker) return worker
+
+  worker = new Worker(new URL('./converterWorker.ts', import.meta.url), {
+    type: 'module',
+  })
+  worker.onmessage = (event: MessageEvent<ConvertResponse>) => {
+    const { id, data, stats, error } = event.data
+    const request = pending.get(id)
+    pending.delete(id)
+    if (!request) return
+
+    if (error || !data) {
+      request.reject(new Error(error ?? 'Conversion returned no data'))
+    } else {
+      request.resolve({ data, stats: stats ? reviveStats(stats) : null })
+    }
+  }
+  worker.onerror = (event) => {
+    console.error('[SplatConverter] Worker failed:', event.message)
+    const err = new Error(event.message || 'Converter worker failed')
+    pending.forEach(({ reject }) => reject(err))
+    pending.clear()
+
+    // Start a fresh worker for the next conversion
+    worker?.terminate()
+    worker = null
+  }
+  return worker
+}
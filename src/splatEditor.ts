@@ -0,0 +1,356 @@
+/**
+ * Splat Editor - Cleanup panel for the splat viewer's edit mode
+ *
+ * Crops the splat to a box, drops transparent Gaussians and filters
+ * statistical outliers, previewing the result in the open viewer as the
+ * sliders move. Edits always start from the original PLY, so saving again
+ * replaces the cleaned copy instead of cleaning it twice.
+ */
+
+import * as THREE from 'three'
+import { fetchSplatData } from './splatLoader'
+import { analyzeSplat } from './plyParser'
+import { CleanupResult, DEFAULT_CLEANUP, SplatCleanup } from './splatCleanup'
+import SplatCleaner from './splatCleaner'
+import { SplatInfo } from './splatViewer'
+
+export interface SplatEditorOptions {
+  container: HTMLElement
+  // Show a cleaned PLY in place of the current splat
+  onPreview: (data: ArrayBuffer) => Promise<void>
+  onSave: (data: ArrayBuffer, cleanup: SplatCleanup) => Promise<void>
+  onRestore: () => Promise<void>
+  // Called after the editor closes, changed when the preview no longer
+  // shows the saved splat
+  onExit: (changed: boolean) => void
+}
+
+type Axis = 0 | 1 | 2
+
+const PREVIEW_DELAY = 250 // ms after the last slider change
+const CROP_STEPS = 200 // slider positions across the splat's bounds
+const AXES = ['X', 'Y', 'Z']
+
+export default class SplatEditor {
+  options: SplatEditorOptions
+  panel: HTMLElement
+  status: HTMLElement
+  restoreBtn: HTMLButtonElement
+  saveBtn: HTMLButtonElement
+  cropInputs: [HTMLInputElement, HTMLInputElement][] = []
+  opacityInput: HTMLInputElement
+  outlierToggle: HTMLInputElement
+  neighboursInput: HTMLInputElement
+  stdRatioInput: HTMLInputElement
+  isActive: boolean = false
+  // Everything below belongs to the open session
+  cleaner: SplatCleaner | null = null
+  viewer: any = null
+  cropBox: THREE.Box3 = new THREE.Box3()
+  cropHelper: THREE.Box3Helper | null = null
+  bounds: THREE.Box3 = new THREE.Box3()
+  // Last finished preview, with the settings that made it
+  result: (CleanupResult & { cleanup: SplatCleanup }) | null = null
+  isChanged: boolean = false
+  previewTimer: ReturnType<typeof setTimeout> | undefined
+  previewToken: number = 0
+  // Scene replacements run one at a time, only the latest waits
+  previewQueue: Promise<void> = Promise.resolve()
+
+  constructor(options: SplatEditorOptions) {
+    this.options = options
+
+    this.panel = document.createElement('div')
+    this.panel.id = 'splat-editor'
+    this.panel.style.cssText = `
+      position: absolute;
+      top: 80px;
+      right: 20px;
+      width: 240px;
+      padding: 12px 16px;
+      background: rgba(255,255,255,0.85);
+      border-radius: 12px;
+      font-size: 12px;
+      color: #333;
+      z-index: 1001;
+      display: none;
+    `
+
+    const title = document.createElement('div')
+    title.textContent = 'Clean up'
+    title.style.cssText = 'font-size: 14px; margin-bottom: 8px;'
+    this.panel.appendChild(title)
+
+    this.panel.appendChild(createHeading('Crop'))
+    AXES.forEach((axis) => {
+      const min = this.addSlider(`${axis} min`, () => this.onCropInput())
+      const max = this.addSlider(`${axis} max`, () => this.onCropInput())
+      this.cropInputs.push([min, max])
+    })
+
+    this.panel.appendChild(createHeading('Opacity'))
+    this.opacityInput = this.addSlider('Minimum', () => this.schedulePreview())
+    setRange(this.opacityInput, 0, 1, 0.01)
+
+    this.panel.appendChild(createHeading('Floaters'))
+    this.outlierToggle = document.createElement('input')
+    this.outlierToggle.type = 'checkbox'
+    this.outlierToggle.onchange = () => this.schedulePreview()
+    const toggleLabel = document.createElement('label')
+    toggleLabel.style.cssText = 'display: flex; gap: 6px; align-items: center;'
+    toggleLabel.append(this.outlierToggle, 'Remove outliers')
+    this.panel.appendChild(toggleLabel)
+    this.neighboursInput = this.addSlider('Neighbours', () => this.schedulePreview())
+    setRange(this.neighboursInput, 4, 32, 4)
+    this.stdRatioInput = this.addSlider('Strictness', () => this.schedulePreview())
+    // Fewer standard deviations removes more
+    setRange(this.stdRatioInput, 0.5, 4, 0.1)
+
+    this.status = document.createElement('div')
+    this.status.style.cssText = 'margin: 10px 0; opacity: 0.7;'
+    this.panel.appendChild(this.status)
+
+    const buttons = document.createElement('div')
+    buttons.style.cssText = 'display: flex; gap: 6px; flex-wrap: wrap;'
+    this.saveBtn = createButton('Save', () => this.save())
+    this.restoreBtn = createButton('Restore original', () => this.restore())
+    buttons.append(this.saveBtn, createButton('Cancel', () => this.close()), this.restoreBtn)
+    this.panel.appendChild(buttons)
+
+    options.container.appendChild(this.panel)
+  }
+
+  /**
+   * Start editing a splat shown in viewer
+   */
+  async open(viewer: any, splat: SplatInfo) {
+    if (this.isActive) return
+    this.isActive = true
+    this.viewer = viewer
+    this.isChanged = false
+    this.result = null
+    this.panel.style.display = 'block'
+    this.restoreBtn.style.display = splat.original ? 'block' : 'none'
+    this.setStatus('Loading original…')
+
+    const token = ++this.previewToken
+    try {
+      const data = await fetchSplatData(splat.original?.plyUrl ?? splat.plyUrl)
+      if (token !== this.previewToken) return
+
+      this.bounds.copy(analyzeSplat(data).bounds)
+      this.cleaner = new SplatCleaner()
+      await this.cleaner.load(data)
+      if (token !== this.previewToken) return
+
+      this.setControls(splat.original?.cleanup ?? DEFAULT_CLEANUP)
+      this.cropHelper = new THREE.Box3Helper(this.cropBox, 0xff3366)
+      viewer.threeScene?.add(this.cropHelper)
+      this.onCropInput()
+    } catch (err) {
+      console.error('[SplatEditor] Could not start editing:', err)
+      this.setStatus('This splat can’t be edited')
+    }
+  }
+
+  /**
+   * Leave edit mode, the viewer decides what to show next
+   */
+  close() {
+    if (!this.isActive) return
+    this.isActive = false
+    this.previewToken++
+    clearTimeout(this.previewTimer)
+
+    this.panel.style.display = 'none'
+    this.cleaner?.dispose()
+    this.cleaner = null
+    if (this.cropHelper) {
+      this.cropHelper.removeFromParent()
+      this.cropHelper.dispose()
+      this.cropHelper = null
+    }
+    this.viewer = null
+    this.result = null
+
+    this.options.onExit(this.isChanged)
+  }
+
+  /**
+   * Current slider values as cleanup settings
+   */
+  getCleanup(): SplatCleanup {
+    const { min, max } = this.cropBox
+    // Slider steps may stop just short of the bounds
+    const tolerance = this.bounds.getSize(new THREE.Vector3()).length() / CROP_STEPS
+    const isCropped = !this.cropBox.clone().expandByScalar(tolerance).containsBox(this.bounds)
+
+    return {
+      crop: isCropped ? { min: min.toArray(), max: max.toArray() } : null,
+      minOpacity: parseFloat(this.opacityInput.value),
+      outliers: this.outlierToggle.checked
+        ? {
+            neighbours: parseInt(this.neighboursInput.value, 10),
+            stdRatio: parseFloat(this.stdRatioInput.value),
+          }
+        : null,
+    }
+  }
+
+  setControls(cleanup: SplatCleanup) {
+    this.cropInputs.forEach(([minInput, maxInput], index) => {
+      const axis = index as Axis
+      const low = this.bounds.min.getComponent(axis)
+      const high = this.bounds.max.getComponent(axis)
+      const step = Math.max((high - low) / CROP_STEPS, 1e-4)
+      setRange(minInput, low, high, step)
+      setRange(maxInput, low, high, step)
+      minInput.value = String(cleanup.crop?.min[axis] ?? low)
+      maxInput.value = String(cleanup.crop?.max[axis] ?? high)
+    })
+
+    this.opacityInput.value = String(cleanup.minOpacity)
+    this.outlierToggle.checked = !!cleanup.outliers
+    this.neighboursInput.value = String(cleanup.outliers?.neighbours ?? 16)
+    this.stdRatioInput.value = String(cleanup.outliers?.stdRatio ?? 2)
+  }
+
+  /**
+   * Keep each axis' min below its max and move the box outline right away
+   */
+  onCropInput() {
+    this.cropInputs.forEach(([minInput, maxInput], index) => {
+      const axis = index as Axis
+      let min = parseFloat(minInput.value)
+      let max = parseFloat(maxInput.value)
+      if (min > max) {
+        ;[min, max] = [max, min]
+        minInput.value = String(min)
+        maxInput.value = String(max)
+      }
+      this.cropBox.min.setComponent(axis, min)
+      this.cropBox.max.setComponent(axis, max)
+    })
+    this.schedulePreview()
+  }
+
+  schedulePreview() {
+    if (!this.cleaner) return
+    clearTimeout(this.previewTimer)
+    this.setStatus('Updating…')
+    this.previewTimer = setTimeout(() => this.updatePreview(), PREVIEW_DELAY)
+  }
+
+  async updatePreview() {
+    const cleaner = this.cleaner
+    if (!cleaner) return
+    const token = ++this.previewToken
+
+    try {
+      const cleanup = this.getCleanup()
+      if (cleanup.outliers) this.setStatus('Finding floaters…')
+      const result = await cleaner.filter(cleanup)
+      if (token !== this.previewToken) return
+
+      this.result = { ...result, cleanup }
+      this.isChanged = true
+      const preview = this.previewQueue.then(() =>
+        token === this.previewToken ? this.options.onPreview(result.data) : undefined
+      )
+      this.previewQueue = preview.catch(() => {})
+      await preview
+
+      if (token !== this.previewToken) return
+      const share = result.total > 0 ? Math.round((result.kept / result.total) * 100) : 0
+      this.setStatus(
+        `Keeping ${result.kept.toLocaleString()} of ${result.total.toLocaleString()} (${share}%)`
+      )
+    } catch (err) {
+      if (token !== this.previewToken) return
+      console.error('[SplatEditor] Preview failed:', err)
+      this.setStatus('Preview failed')
+    }
+  }
+
+  async save() {
+    if (!this.result) return
+    // Settings still waiting on a preview aren't in the data yet
+    const { data, cleanup } = this.result
+    this.saveBtn.disabled = true
+    this.setStatus('Saving…')
+
+    try {
+      await this.options.onSave(data, cleanup)
+      // The preview is now what is saved
+      this.isChanged = false
+      this.close()
+    } catch (err) {
+      console.error('[SplatEditor] Save failed:', err)
+      this.setStatus('Save failed')
+    } finally {
+      this.saveBtn.disabled = false
+    }
+  }
+
+  async restore() {
+    this.setStatus('Restoring…')
+    try {
+      await this.options.onRestore()
+      // The viewer has to load the original again
+      this.isChanged = true
+      this.close()
+    } catch (err) {
+      console.error('[SplatEditor] Restore failed:', err)
+      this.setStatus('Restore failed')
+    }
+  }
+
+  setStatus(text: string) {
+    this.status.textContent = text
+  }
+
+  addSlider(label: string, onInput: () => void) {
+    const row = document.createElement('label')
+    row.style.cssText = `
+      display: grid;
+      grid-template-columns: 72px 1fr;
+      align-items: center;
+      gap: 6px;
+    `
+    const input = document.createElement('input')
+    input.type = 'range'
+    input.oninput = onInput
+    row.append(label, input)
+    this.panel.appendChild(row)
+    return input
+  }
+}
+
+function setRange(input: HTMLInputElement, min: number, max: number, step: number) {
+  input.min = String(min)
+  input.max = String(max)
+  input.step = String(step)
+}
+
+function createHeading(text: string) {
+  const heading = document.createElement('div')
+  heading.textContent = text
+  heading.style.cssText = 'margin: 8px 0 2px; opacity: 0.6;'
+  return heading
+}
+
+function createButton(text: string, onClick: () => void) {
+  const button = document.createElement('button')
+  button.textContent = text
+  button.onclick = onClick
+  button.style.cssText = `
+    padding: 6px 10px;
+    border: none;
+    background: rgba(0,0,0,0.1);
+    border-radius: 14px;
+    font-size: 12px;
+    cursor: pointer;
+    color: #333;
+  `
+  return button
+}
@@ -0,0 +1,260 @@
+/**
+ * Splat Field - Ready memories as 3D splats floating among the cards
+ *
+ * Every ready splat can stand in for one of its photo's cards. A single
+ * dynamic-scene viewer holds the splats near the camera, each following
+ * its card as the field drifts, drags and scrolls. Far and off-screen
+ * memories stay as cards so GPU memory stays bounded.
+ */
+
+import * as THREE from 'three'
+import * as GaussianSplats3D from '@mkkellogg/gaussian-splats-3d'
+import Planes from './planes'
+import { SplatFraming, SplatInfo } from './splatViewer'
+import { createSplatUrl, loadSplat } from './splatLoader'
+
+export interface SplatFieldOptions {
+  scene: THREE.Scene
+  renderer: THREE.WebGLRenderer
+  camera: THREE.PerspectiveCamera
+  planes: Planes
+  framing: SplatFraming
+  // Most splats loaded at once
+  maxLoaded?: number
+}
+
+interface LoadedSplat {
+  photoId: string
+  instance: number
+}
+
+interface Candidate {
+  splat: SplatInfo
+  instance: number
+  distance: number
+}
+
+const LOAD_DISTANCE = 14 // world units, splats closer than this load
+const UNLOAD_DISTANCE = 18 // further than LOAD_DISTANCE so splats don't flicker
+const LOD_INTERVAL = 0.25 // seconds between level of detail passes
+const CARD_SIZE = 1.8 // matches CARD_HALF_SIZE in planes.ts
+const SPLAT_RADIUS = 1.5 // rough bounds for frustum culling
+
+export default class SplatField {
+  scene: THREE.Scene
+  renderer: THREE.WebGLRenderer
+  camera: THREE.PerspectiveCamera
+  planes: Planes
+  framing: SplatFraming
+  maxLoaded: number
+  viewer: any = null
+  splats: SplatInfo[] = []
+  // In scene index order, as the viewer stores them
+  loaded: LoadedSplat[] = []
+  isSyncing: boolean = false
+  sinceLastPass: number = Infinity
+  frustum: THREE.Frustum = new THREE.Frustum()
+  projection: THREE.Matrix4 = new THREE.Matrix4()
+  center: THREE.Vector3 = new THREE.Vector3()
+  sphere: THREE.Sphere = new THREE.Sphere()
+
+  constructor({
+    scene,
+    renderer,
+    camera,
+    planes,
+    framing,
+    maxLoaded = 6,
+  }: SplatFieldOptions) {
+    this.scene = scene
+    this.renderer = renderer
+    this.camera = camera
+    this.planes = planes
+    this.framing = framing
+    this.maxLoaded = maxLoaded
+
+    this.viewer = new GaussianSplats3D.Viewer({
+      selfDrivenMode: false,
+      useBuiltInControls: false,
+      renderer,
+      camera,
+      threeScene: scene,
+      rootElement: renderer.domElement,
+      dynamicScene: true,
+      sceneRevealMode: GaussianSplats3D.SceneRevealMode.Instant,
+      antialiased: true,
+      focalAdjustment: 1.0,
+    })
+  }
+
+  /**
+   * Splats that may appear in the field, e.g. after a new one is ready
+   */
+  setSplats(splats: SplatInfo[]) {
+    this.splats = [...splats]
+    this.sinceLastPass = Infinity
+  }
+
+  /**
+   * Scale that shrinks what the modal viewer frames down to a card
+   */
+  getSplatScale() {
+    const { fov, distance } = this.framing
+    const framedHeight = 2 * distance * Math.tan((fov * Math.PI) / 360)
+    return CARD_SIZE / framedHeight
+  }
+
+  /**
+   * Follow the cards every frame, re-plan which splats are loaded a few
+   * times a second
+   */
+  update(delta: number) {
+    this.sinceLastPass += delta
+    if (this.sinceLastPass >= LOD_INTERVAL) {
+      this.sinceLastPass = 0
+      this.updateLevelOfDetail()
+    }
+
+    this.loaded.forEach(({ instance }, index) => {
+      const splatScene = this.viewer.getSplatScene(index)
+      if (splatScene) this.planes.getInstanceCenter(instance, splatScene.position)
+    })
+  }
+
+  /**
+   * Load the nearest visible splats and unload the rest
+   */
+  updateLevelOfDetail() {
+    if (this.isSyncing) return
+
+    this.projection.multiplyMatrices(
+      this.camera.projectionMatrix,
+      this.camera.matrixWorldInverse
+    )
+    this.frustum.setFromProjectionMatrix(this.projection)
+
+    const loadedIds = new Set(this.loaded.map((l) => l.photoId))
+    const wanted: Candidate[] = []
+
+    for (const splat of this.splats) {
+      const instance = this.planes.findPhotoInstance(splat.photoId, this.camera.position)
+      if (instance < 0) continue
+
+      this.planes.getInstanceCenter(instance, this.center)
+      this.sphere.set(this.center, SPLAT_RADIUS)
+      if (!this.frustum.intersectsSphere(this.sphere)) continue
+
+      const distance = this.center.distanceTo(this.camera.position)
+      const limit = loadedIds.has(splat.photoId) ? UNLOAD_DISTANCE : LOAD_DISTANCE
+      if (distance < limit) wanted.push({ splat, instance, distance })
+    }
+
+    wanted.sort((a, b) => a.distance - b.distance)
+    wanted.length = Math.min(wanted.length, this.maxLoaded)
+
+    const wantedById = new Map(wanted.map((c) => [c.splat.photoId, c]))
+
+    // Loaded splats may have moved to a nearer copy of their card
+    for (const entry of this.loaded) {
+      const candidate = wantedById.get(entry.photoId)
+      if (candidate) entry.instance = candidate.instance
+    }
+
+    const unload = this.loaded
+      .map((entry, index) => (wantedById.has(entry.photoId) ? -1 : index))
+      .filter((index) => index !== -1)
+    const load = wanted.filter((c) => !loadedIds.has(c.splat.photoId))
+
+    if (unload.length > 0 || load.length > 0) {
+      this.sync(unload, load)
+    } else {
+      this.updateHiddenCards()
+    }
+  }
+
+  /**
+   * Apply one batch of unloads and loads. The viewer can only run one
+   * scene change at a time, so passes are skipped while this runs. Stops
+   * after any await that finds the field disposed.
+   */
+  async sync(unload: number[], load: Candidate[]) {
+    const viewer = this.viewer
+    this.isSyncing = true
+
+    try {
+      if (unload.length > 0) {
+        await viewer.removeSplatScenes(unload, false)
+        if (this.viewer !== viewer) return
+        const removed = new Set(unload)
+        this.loaded = this.loaded.filter((_, index) => !removed.has(index))
+        this.updateHiddenCards()
+      }
+
+      if (load.length > 0) {
+        const scale = this.getSplatScale()
+        const files = await Promise.all(
+          load.map(({ splat }) => loadSplat(splat.plyUrl))
+        )
+        if (this.viewer !== viewer) return
+        const urls = files.map(({ data }) => createSplatUrl(data))
+
+        try {
+          await viewer.addSplatScenes(
+            load.map(({ instance }, index) => ({
+              path: urls[index],
+              format: files[index].format,
+              splatAlphaRemovalThreshold: 5,
+              position: this.planes
+                .getInstanceCenter(instance, new THREE.Vector3())
+                .toArray(),
+              scale: [scale, scale, scale],
+            })),
+            false
+          )
+        } finally {
+          urls.forEach((url) => URL.revokeObjectURL(url))
+        }
+        if (this.viewer !== viewer) return
+        this.loaded.push(
+          ...load.map(({ splat, instance }) => ({ photoId: splat.photoId, instance }))
+        )
+        this.updateHiddenCards()
+        console.log(`[SplatField] Loaded ${load.length}, showing ${this.loaded.length}`)
+      }
+    } catch (err) {
+      // Disposing mid-change makes the viewer's pending work fail
+      if (this.viewer !== viewer) return
+      console.error('[SplatField] Failed to update splats:', err)
+    } finally {
+      this.isSyncing = false
+    }
+  }
+
+  /**
+   * Cards make way for the splats drawn in their place
+   */
+  updateHiddenCards() {
+    this.planes.setHiddenInstances(this.loaded.map((l) => l.instance))
+  }
+
+  /**
+   * Draw the scene with the loaded splats. Returns false while nothing is
+   * loaded, so the caller renders the scene itself.
+   */
+  render(): boolean {
+    this.viewer.update()
+    if (this.loaded.length === 0 || !this.viewer.splatRenderReady) return false
+
+    this.viewer.render()
+    return true
+  }
+
+  dispose() {
+    this.planes.setHiddenInstances([])
+    this.loaded = []
+    try {
+      this.viewer.dispose()
+    } catch (e) {}
+    this.viewer = null
+  }
+}
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+// In-memory splat cache standing in for IndexedDB
+const cache: Map<string, { data: ArrayBuffer }> = new Map()
+
+vi.mock('./photoService', () => ({
+  LOCAL_SPLAT_PREFIX: '/local-splats/',
+  getLocalSplat: vi.fn(async () => null),
+  getCachedSplat: vi.fn(async (url: string) => cache.get(url) ?? null),
+  cacheSplat: vi.fn(async (url: string, data: ArrayBuffer, extra = {}) => {
+    cache.set(url, { data, ...extra })
+  }),
+  touchCachedSplat: vi.fn(async () => {}),
+}))
+
+vi.mock('./splatConverter', () => ({
+  convertToKSplat: vi.fn(async () => ({ data: new ArrayBuffer(4), stats: null })),
+}))
+
+vi.mock('@mkkellogg/gaussian-splats-3d', () => ({
+  SceneFormat: { Splat: 0, KSplat: 1, Ply: 2 },
+  LoaderUtils: { sceneFormatFromPath: () => 2 },
+}))
+
+const { fetchSplatData, loadSplat } = await import('./splatLoader')
+
+const PLY_URL = 'https://example.com/splats/sharp_1/output.ply'
+
+describe('point mode offline', () => {
+  beforeEach(() => {
+    cache.clear()
+    vi.stubGlobal('window', { location: { href: 'http://localhost/' } })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('reads the PLY from the cache once the splat has been compacted', async () => {
+    const ply = new ArrayBuffer(16)
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(ply)))
+
+    // First view downloads the PLY and compacts it in the background
+    await loadSplat(PLY_URL)
+    await vi.waitFor(() => {
+      expect([...cache.keys()].some((key) => key.includes('#ksplat'))).toBe(true)
+    })
+
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      throw new TypeError('Failed to fetch')
+    }))
+
+    // The viewer gets the compact copy, point mode asks for the PLY
+    const loaded = await loadSplat(PLY_URL)
+    expect(loaded.format).toBe(1)
+    const points = await fetchSplatData(PLY_URL)
+    expect(points.byteLength).toBe(ply.byteLength)
+    expect(fetch).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,188 @@
+/**
+ * Splat Loader - Fetch splat files through the offline cache
+ *
+ * Files downloaded before come straight out of IndexedDB, everything else
+ * is fetched and cached on the way in. Viewers get the data as blob URLs,
+ * so memories viewed once keep working without a network.
+ *
+ * Sharp's PLY files are large, so after the first view a PLY is converted
+ * to a compact .ksplat in a worker, which is what later views load. The
+ * PLY stays cached next to it: point mode and the cleanup editor read the
+ * full file, and have to work offline too.
+ *
+ * Splats made in the browser live in their own store instead, and are
+ * loaded as they are: there would be no PLY to convert them from again.
+ */
+
+import * as GaussianSplats3D from '@mkkellogg/gaussian-splats-3d'
+import {
+  cacheSplat,
+  getCachedSplat,
+  getLocalSplat,
+  LOCAL_SPLAT_PREFIX,
+  touchCachedSplat,
+} from './photoService'
+import { reviveStats, SplatStats } from './plyParser'
+import { convertToKSplat } from './splatConverter'
+import type { ConvertOptions } from './converterWorker'
+
+export interface CompactSettings extends ConvertOptions {
+  enabled: boolean
+}
+
+export interface LoadedSplat {
+  data: ArrayBuffer
+  format: number
+  // Measured from the PLY a compact copy was made from. Null for files
+  // loaded as they are, which can be measured directly.
+  stats: SplatStats | null
+  // Size of that PLY, to show what the compact copy saves
+  originalSize?: number
+}
+
+// The viewers render without spherical harmonics, so by default they
+// are stripped
+export const compactSettings: CompactSettings = {
+  enabled: true,
+  compressionLevel: 1,
+  sphericalHarmonicsDegree: 0,
+}
+
+// Conversions in flight, by cache key
+const converting: Map<string, Promise<void>> = new Map()
+
+/**
+ * Get a splat file's bytes, from the cache when possible
+ */
+export async function fetchSplatData(url: string): Promise<ArrayBuffer> {
+  if (url.startsWith(LOCAL_SPLAT_PREFIX)) {
+    const data = await getLocalSplat(url)
+    if (!data) throw new Error(`Local splat not found: ${url}`)
+    return data
+  }
+
+  // Blob URLs are local already, and differ every session
+  if (url.startsWith('blob:')) {
+    const res = await fetch(url)
+    if (!res.ok) throw new Error(`Failed to read splat: ${url}`)
+    return res.arrayBuffer()
+  }
+
+  try {
+    const cached = await getCachedSplat(url)
+    if (cached) return cached.data
+  } catch (err) {
+    console.warn('[SplatLoader] Cache read failed:', err)
+  }
+
+  const res = await fetch(url)
+  if (!res.ok) throw new Error(`Failed to fetch splat: ${url}`)
+  const data = await res.arrayBuffer()
+
+  cacheSplat(url, data).catch((err) => {
+    console.warn('[SplatLoader] Cache write failed:', err)
+  })
+  return data
+}
+
+/**
+ * Get a splat ready for a viewer, preferring a cached compact copy. A PLY
+ * without one is loaded as it is and converted in the background.
+ */
+export async function loadSplat(url: string): Promise<LoadedSplat> {
+  const format = getSceneFormat(url)
+  const canCompact =
+    compactSettings.enabled &&
+    format === GaussianSplats3D.SceneFormat.Ply &&
+    !isLocalUrl(url)
+  if (!canCompact) {
+    return { data: await fetchSplatData(url), format, stats: null }
+  }
+
+  const key = getCompactKey(url)
+  try {
+    const cached = await getCachedSplat(key)
+    if (cached) {
+      // Used along with its compact copy, so both leave the cache together
+      touchCachedSplat(url).catch(() => {})
+      return {
+        data: cached.data,
+        format: GaussianSplats3D.SceneFormat.KSplat,
+        stats: cached.stats ? reviveStats(cached.stats) : null,
+        originalSize: cached.originalSize,
+      }
+    }
+  } catch (err) {
+    console.warn('[SplatLoader] Cache read failed:', err)
+  }
+
+  const data = await fetchSplatData(url)
+  compactSplat(url, key, data)
+  return { data, format, stats: null }
+}
+
+/**
+ * Convert a PLY and cache the result under its compact key
+ */
+function compactSplat(url: string, key: string, data: ArrayBuffer) {
+  if (converting.has(key)) return
+
+  const { compressionLevel, sphericalHarmonicsDegree } = compactSettings
+  const task = convertToKSplat(data, { compressionLevel, sphericalHarmonicsDegree })
+    .then(async ({ data: compact, stats }) => {
+      await cacheSplat(key, compact, { stats, originalSize: data.byteLength })
+
+      const saved = 1 - compact.byteLength / data.byteLength
+      console.log(
+        `[SplatLoader] Compacted ${url}: ${formatBytes(data.byteLength)} → ` +
+          `${formatBytes(compact.byteLength)} (${Math.round(saved * 100)}% smaller)`
+      )
+    })
+    .catch((err) => {
+      console.warn(`[SplatLoader] Could not compact ${url}:`, err)
+    })
+    .finally(() => converting.delete(key))
+
+  converting.set(key, task)
+}
+
+/**
+ * Cache key of a compact copy. Each setting gets its own copy, so changing
+ * them converts again instead of reusing a copy made differently.
+ */
+function getCompactKey(url: string) {
+  const { compressionLevel, sphericalHarmonicsDegree } = compactSettings
+  return `${url}#ksplat-c${compressionLevel}-sh${sphericalHarmonicsDegree}`
+}
+
+function isLocalUrl(url: string) {
+  return url.startsWith('blob:') || url.startsWith(LOCAL_SPLAT_PREFIX)
+}
+
+/**
+ * Blob URLs carry no file extension, so the format comes from the
+ * original URL. Sharp always returns PLY.
+ */
+export function getSceneFormat(url: string): number {
+  const path = new URL(url, window.location.href).pathname
+  return (
+    GaussianSplats3D.LoaderUtils.sceneFormatFromPath(path) ??
+    GaussianSplats3D.SceneFormat.Ply
+  )
+}
+
+/**
+ * Object URL for splat data, revoke it once the viewer has loaded it
+ */
+export function createSplatUrl(data: ArrayBuffer): string {
+  return URL.createObjectURL(new Blob([data]))
+}
+
+/**
+ * File size for display, e.g. "12.4 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
@@ -0,0 +1,93 @@
+/**
+ * Splat Provider - What a splat generation backend has to offer
+ *
+ * sharpService drives generations through one of these: the Sharp HTTP
+ * API in sharpProvider.ts, or the offline stand-in in mockProvider.ts.
+ * Errors are shared so the queue can tell which failures may pass.
+ */
+
+export interface SharpResult {
+  plyUrl: string
+  filename: string
+  sizeBytes: number
+}
+
+// An image by URL, or a file straight from the user
+export type SplatInput = { imageUrl: string } | { blob: Blob; filename: string }
+
+// Steps a job goes through, queued is pending and the rest processing
+export type SplatStage = 'queued' | 'inferring' | 'storing'
+
+export interface SplatStatus {
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
+  // Set while the job is pending or processing, if the provider knows it
+  stage?: SplatStage
+  // 0 to 1, an estimate from the stage and the time spent in it
+  progress?: number
+  // Set when status is failed
+  error?: string
+}
+
+export interface SplatProvider {
+  // Start a generation, resolving with its request ID
+  submit(input: SplatInput, signal?: AbortSignal): Promise<string>
+  status(requestId: string, signal?: AbortSignal): Promise<SplatStatus>
+  // Only for completed generations
+  result(requestId: string, signal?: AbortSignal): Promise<SharpResult>
+  cancel(requestId: string): Promise<void>
+  // Pushes status changes as they happen, returning a function that
+  // stops watching. The listener gets null once updates stop coming, and
+  // the generation has to be polled from then on.
+  watch?(requestId: string, listener: StatusListener): () => void
+}
+
+export type StatusListener = (status: SplatStatus | null) => void
+
+/**
+ * A failed generation, with what is known about where it failed
+ */
+export class SharpError extends Error {
+  // HTTP status of the failed response, if there was one
+  status?: number
+  requestId?: string
+  // Reported by the job itself, i.e. inference on Modal failed
+  isJobFailure: boolean
+
+  constructor(
+    message: string,
+    { status, requestId, isJobFailure = false }: {
+      status?: number
+      requestId?: string
+      isJobFailure?: boolean
+    } = {}
+  ) {
+    super(message)
+    this.name = 'SharpError'
+    this.status = status
+    this.requestId = requestId
+    this.isJobFailure = isJobFailure
+  }
+}
+
+/**
+ * Whether trying the same photo again may well work: timeouts, server
+ * errors, Modal failures and dropped connections. Anything else, like a
+ * rejected upload, fails the same way every time.
+ */
+export function isTransientError(err: unknown): boolean {
+  if (isNetworkError(err)) return true
+  if (!(err instanceof Error)) return false
+  if (err.message === 'sharp_timeout' || /modal/i.test(err.message)) return true
+  if (err instanceof SharpError) {
+    return err.isJobFailure || err.status === 429 || (err.status ?? 0) >= 500
+  }
+  return false
+}
+
+/**
+ * fetch rejects with a TypeError when the network fails, worded by each
+ * browser in its own way. Other TypeErrors are bugs, which don't pass.
+ */
+function isNetworkError(err: unknown): boolean {
+  return err instanceof TypeError && /fetch|network|load failed/i.test(err.message)
+}
@@ -0,0 +1,281 @@
+/**
+ * Splat Queue - Persistent queue of splat generations
+ *
+ * Every photo waiting for a splat has a job in IndexedDB, holding Sharp's
+ * request ID once the photo has been submitted. After a reload, submitted
+ * jobs go back to polling and the rest are submitted again. A few jobs
+ * run side by side, and any job can be cancelled. Jobs that fail for
+ * reasons that may pass, like a timeout, are retried with growing delays.
+ */
+
+import { sharpService } from './sharpService'
+import { isTransientError, SharpError, SharpResult } from './splatProvider'
+import {
+  deleteSplatJob,
+  getStoredPhoto,
+  loadSplatJobs,
+  saveSplatJob,
+  updatePhotoSplatAttempt,
+  updatePhotoSplatStatus,
+} from './photoService'
+
+export interface SplatJob {
+  photoId: string
+  // Set once Sharp has accepted the photo
+  requestId?: string
+  status: 'queued' | 'running'
+  createdAt: number
+  // Failed tries so far, and when the next one may start
+  failures: number
+  retryAt?: number
+}
+
+export interface SplatQueueListener {
+  onProgress?: (photoId: string, message: string) => void
+  onComplete?: (photoId: string, result: SharpResult) => void
+  onError?: (photoId: string, err: Error) => void
+  onCancel?: (photoId: string) => void
+  // A transient failure, the job runs again after delay ms
+  onRetry?: (photoId: string, err: Error, delay: number) => void
+  // Jobs waiting or running, after every change
+  onChange?: (jobs: SplatJob[]) => void
+}
+
+// How many photos are submitted to Sharp at once
+export const queueSettings = {
+  concurrency: 2,
+}
+
+const MAX_FAILURES = 4 // automatic tries before a photo counts as failed
+const RETRY_DELAY = 5000 // ms before the first retry, doubling after each
+
+// By photo ID, in the order they were queued
+const jobs: Map<string, SplatJob> = new Map()
+const running: Map<string, AbortController> = new Map()
+let listener: SplatQueueListener = {}
+let retryTimer: ReturnType<typeof setTimeout> | undefined
+
+/**
+ * Load the jobs left over from the last session and start them again
+ */
+export async function initSplatQueue(callbacks: SplatQueueListener): Promise<void> {
+  listener = callbacks
+
+  const stored = await loadSplatJobs()
+  stored.sort((a, b) => a.createdAt - b.createdAt)
+  for (const job of stored) {
+    // Nothing is running until this session starts it
+    jobs.set(job.photoId, { ...job, failures: job.failures ?? 0, status: 'queued' })
+  }
+
+  if (stored.length > 0) {
+    console.log(`[SplatQueue] Resuming ${stored.length} job(s)`)
+  }
+  notify()
+  runQueue()
+}
+
+/**
+ * Queue photos for splat generation, skipping any already queued
+ */
+export async function enqueueSplats(photoIds: string[]): Promise<void> {
+  for (const photoId of photoIds) {
+    if (jobs.has(photoId)) continue
+
+    const job: SplatJob = { photoId, status: 'queued', createdAt: Date.now(), failures: 0 }
+    jobs.set(photoId, job)
+    await saveSplatJob(job)
+    await updatePhotoSplatStatus(photoId, 'pending')
+  }
+
+  notify()
+  runQueue()
+}
+
+/**
+ * Drop a photo's job, stopping it if it is running and telling the
+ * provider when it was submitted already
+ */
+export async function cancelSplatJob(photoId: string): Promise<void> {
+  const job = jobs.get(photoId)
+  if (!job) return
+
+  if (job.requestId) {
+    sharpService.cancel(job.requestId).catch((err) => {
+      console.warn(`[SplatQueue] Could not cancel ${job.requestId}:`, err)
+    })
+  }
+  running.get(photoId)?.abort()
+  running.delete(photoId)
+  jobs.delete(photoId)
+  console.log(`[SplatQueue] Cancelled ${photoId}`)
+
+  await deleteSplatJob(photoId)
+  await updatePhotoSplatStatus(photoId, 'cancelled')
+  listener.onCancel?.(photoId)
+
+  notify()
+  runQueue()
+}
+
+export async function cancelAllSplatJobs(): Promise<void> {
+  for (const photoId of Array.from(jobs.keys())) {
+    await cancelSplatJob(photoId)
+  }
+}
+
+export function getSplatJobs(): SplatJob[] {
+  return Array.from(jobs.values(), (job) => ({ ...job }))
+}
+
+export function hasSplatJob(photoId: string): boolean {
+  return jobs.has(photoId)
+}
+
+/**
+ * Start queued jobs while there is room. Submitted jobs are running on
+ * Sharp already, so they always start and only watching them is left.
+ * Jobs waiting to retry are started once their delay has passed.
+ */
+export function runQueue() {
+  clearTimeout(retryTimer)
+  const now = Date.now()
+  let nextRetry = Infinity
+
+  for (const job of jobs.values()) {
+    if (job.status !== 'queued') continue
+    if (job.retryAt && job.retryAt > now) {
+      nextRetry = Math.min(nextRetry, job.retryAt)
+      continue
+    }
+    if (!job.requestId && running.size >= queueSettings.concurrency) continue
+    runJob(job)
+  }
+
+  if (nextRetry < Infinity) {
+    retryTimer = setTimeout(runQueue, nextRetry - now)
+  }
+}
+
+async function runJob(job: SplatJob) {
+  const { photoId } = job
+  const controller = new AbortController()
+  const { signal } = controller
+  running.set(photoId, controller)
+  job.status = 'running'
+  notify()
+
+  try {
+    await saveSplatJob(job)
+    await updatePhotoSplatStatus(photoId, 'processing')
+    signal.throwIfAborted()
+
+    let { requestId } = job
+    if (!requestId) {
+      const photo = await getStoredPhoto(photoId)
+      if (!photo) throw new Error(`Photo not found: ${photoId}`)
+      await updatePhotoSplatAttempt(photoId, {
+        splatAttempts: (photo.splatAttempts ?? 0) + 1,
+      })
+
+      requestId = await sharpService.submitBlob(photo.blob, photo.name, signal)
+      signal.throwIfAborted()
+      job.requestId = requestId
+      await saveSplatJob(job)
+      await updatePhotoSplatAttempt(photoId, { splatRequestId: requestId })
+    }
+
+    const result = await sharpService.waitForResult(
+      requestId,
+      undefined,
+      (message) => listener.onProgress?.(photoId, message),
+      signal
+    )
+    signal.throwIfAborted()
+
+    await updatePhotoSplatAttempt(photoId, { splatError: undefined })
+    await updatePhotoSplatStatus(photoId, 'ready', result.plyUrl)
+    console.log(`[SplatQueue] Splat ready for ${photoId}: ${result.plyUrl}`)
+    await finishJob(photoId)
+    listener.onComplete?.(photoId, result)
+  } catch (err) {
+    // cancelSplatJob has tidied up already
+    if (signal.aborted) return
+    await failJob(job, err instanceof Error ? err : new Error(String(err)))
+  }
+}
+
+/**
+ * Schedule a retry for a transient failure, or give up on the photo
+ */
+async function failJob(job: SplatJob, err: Error) {
+  const { photoId } = job
+  const failedRequestId = (err instanceof SharpError && err.requestId) || job.requestId
+  job.failures++
+
+  try {
+    await updatePhotoSplatAttempt(photoId, {
+      splatError: err.message,
+      splatRequestId: failedRequestId,
+    })
+  } catch (saveErr) {
+    console.warn(`[SplatQueue] Could not record failure for ${photoId}:`, saveErr)
+  }
+  // Cancelled in the meantime
+  if (jobs.get(photoId) !== job) return
+
+  // A request that timed out may still be running, drop it before a
+  // retry submits the photo again
+  if (err.message === 'sharp_timeout' && failedRequestId) {
+    sharpService.cancel(failedRequestId).catch((cancelErr) => {
+      console.warn(`[SplatQueue] Could not cancel ${failedRequestId}:`, cancelErr)
+    })
+  }
+
+  if (isTransientError(err) && job.failures < MAX_FAILURES) {
+    const delay = RETRY_DELAY * 2 ** (job.failures - 1)
+    console.warn(
+      `[SplatQueue] Generation for ${photoId} failed, retrying in ${delay / 1000}s:`,
+      err.message
+    )
+
+    running.delete(photoId)
+    // A fresh submission, the failed request is done with
+    job.requestId = undefined
+    job.status = 'queued'
+    job.retryAt = Date.now() + delay
+    try {
+      await saveSplatJob(job)
+      await updatePhotoSplatStatus(photoId, 'pending')
+    } catch (saveErr) {
+      console.warn(`[SplatQueue] Could not save retry for ${photoId}:`, saveErr)
+    }
+
+    listener.onRetry?.(photoId, err, delay)
+    notify()
+    runQueue()
+    return
+  }
+
+  console.error(`[SplatQueue] Splat generation failed for ${photoId}:`, err)
+  await updatePhotoSplatStatus(photoId, 'failed').catch(() => {})
+  await finishJob(photoId)
+  listener.onError?.(photoId, err)
+}
+
+async function finishJob(photoId: string) {
+  running.delete(photoId)
+  jobs.delete(photoId)
+  try {
+    await deleteSplatJob(photoId)
+  } catch (err) {
+    console.warn(`[SplatQueue] Could not remove job ${photoId}:`, err)
+  }
+
+  notify()
+  runQueue()
+}
+
+function notify() {
+  listener.onChange?.(getSplatJobs())
+}
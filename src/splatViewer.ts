@@ -2,25 +2,125 @@
  * Splat Viewer - Fullscreen modal viewer for Gaussian splats
  *
  * Opens when user clicks a photo card, allows swiping between splats.
+ * Given the gallery's renderer, scene and camera it can also embed the
+ * current splat in the gallery scene, drawn in the gallery's render pass.
  */
 
+import * as THREE from 'three'
 import * as GaussianSplats3D from '@mkkellogg/gaussian-splats-3d'
+import gsap from 'gsap'
+import {
+  createSplatUrl,
+  fetchSplatData,
+  formatBytes,
+  LoadedSplat,
+  loadSplat,
+} from './splatLoader'
+import { analyzeSplat, SplatStats } from './plyParser'
+import { SplatCleanup } from './splatCleanup'
+import SplatEditor from './splatEditor'
+import SplatCompare from './splatCompare'
+import PointCloudViewer from './pointCloudViewer'
+import { getPhotoById } from './photoService'
 
 export interface SplatInfo {
   id: string
   photoId: string
   plyUrl: string
+  // Set when plyUrl is a cleaned copy of this original
+  original?: SplatOriginal
 }
 
+export interface SplatOriginal {
+  plyUrl: string
+  cleanup: SplatCleanup
+}
+
+export interface SplatFraming {
+  // Vertical field of view of the viewer's camera, in degrees
+  fov: number
+  // Distance from the camera to the splat's origin
+  distance: number
+}
+
+// What embedded mode draws with, all owned by Canvas
+export interface SplatViewerOptions {
+  scene: THREE.Scene
+  renderer: THREE.WebGLRenderer
+  camera: THREE.PerspectiveCamera
+}
+
+// How the modal draws splats: full Gaussians, or one point per Gaussian
+export type SplatDisplay = 'gaussians' | 'points'
+
+// Where the modal's camera starts for one splat
+interface SplatView {
+  position: THREE.Vector3
+  lookAt: THREE.Vector3
+  up: THREE.Vector3
+  // Vertical field of view in degrees
+  fov: number
+  near: number
+  far: number
+  // Source photo to line up with in compare mode
+  photo?: { url: string; aspect: number }
+}
+
+const FADE_DURATION = 0.5
+const CROSSFADE_DURATION = 0.45
+const CROSSFADE_OFFSET = 60 // px the incoming splat slides in from
+const EDGE_SWIPE_WIDTH = 32 // px from the screen edge where swipes start
+const EDGE_SWIPE_DISTANCE = 80 // px an edge swipe must travel
+const FLICK_VELOCITY = 0.8 // px per ms for a flick anywhere on screen
+const FLICK_DISTANCE = 60
+const WHEEL_SWIPE_DISTANCE = 120 // accumulated horizontal wheel delta
+const WHEEL_IDLE_TIME = 200 // ms without wheel events that ends a gesture
+const STATS_INTERVAL = 500 // ms between FPS and memory readings
+const FRAMING_MARGIN = 1.1 // room around the splat's core
+const MIN_FRAMING_DISTANCE = 0.5 // so tiny splats don't put the camera inside
+
 export default class SplatViewer {
   splats: SplatInfo[] = []
   currentIndex: number = 0
   viewer: any = null
+  // Element the current viewer draws into, one per viewer so they can
+  // crossfade
+  layer: HTMLElement | null = null
+  // Viewer a load is still building, until it crossfades in
+  incoming: { viewer: any; layer: HTMLElement } | null = null
+  loadToken: number = 0
   isOpen: boolean = false
   container: HTMLElement | null = null
   onClose: (() => void) | null = null
+  // The library's built-in camera always uses a 50° field of view
+  framing: SplatFraming = { fov: 50, distance: 4 }
+  embedOptions: SplatViewerOptions | null = null
+  embeddedViewer: any = null
+  isEmbedded: boolean = false
+  // Where the embedded splat sits in the gallery scene
+  embeddedCenter: THREE.Vector3 = new THREE.Vector3()
+  // Downloads for the current splat and its neighbours, by PLY URL
+  prefetched: Map<string, Promise<LoadedSplat>> = new Map()
+  // Parsed PLY stats by PLY URL, null when parsing failed
+  stats: Map<string, SplatStats | null> = new Map()
+  infoPanel: HTMLElement | null = null
+  editor: SplatEditor | null = null
+  compare: SplatCompare | null = null
+  // Half height of the current source photo's view, as a tangent
+  sourceTanHalfHeight: number = Math.tan((50 * Math.PI) / 360)
+  display: SplatDisplay = 'gaussians'
+  displayBtn: HTMLButtonElement | null = null
+  statsLabel: HTMLElement | null = null
+  statsFrame: number = 0
+  // Set by the owner to store and drop cleaned splats, resolving with
+  // the URL to show from then on
+  onSaveCleanup:
+    | ((photoId: string, data: ArrayBuffer, cleanup: SplatCleanup) => Promise<string>)
+    | null = null
+  onRestoreOriginal: ((photoId: string) => Promise<string>) | null = null
 
-  constructor() {
+  constructor(options?: SplatViewerOptions) {
+    this.embedOptions = options ?? null
     this.createModal()
   }
 
@@ -111,35 +211,209 @@ export default class SplatViewer {
       font-size: 14px;
       color: #333;
       z-index: 1001;
+      overflow: hidden;
+    `
+
+    // Info toggle and the stats overlay it shows
+    const infoBtn = document.createElement('button')
+    infoBtn.innerHTML = 'i'
+    infoBtn.title = 'Splat info (I)'
+    infoBtn.style.cssText = `
+      position: absolute;
+      top: 20px;
+      right: 76px;
+      width: 44px;
+      height: 44px;
+      border: none;
+      background: rgba(0,0,0,0.1);
+      border-radius: 50%;
+      font-size: 18px;
+      font-style: italic;
+      font-family: Georgia, serif;
+      cursor: pointer;
+      z-index: 1001;
+      color: #333;
+    `
+    infoBtn.onclick = () => this.toggleInfo()
+
+    const editBtn = document.createElement('button')
+    editBtn.innerHTML = '✎'
+    editBtn.title = 'Clean up splat'
+    editBtn.style.cssText = `
+      position: absolute;
+      top: 20px;
+      right: 132px;
+      width: 44px;
+      height: 44px;
+      border: none;
+      background: rgba(0,0,0,0.1);
+      border-radius: 50%;
+      font-size: 18px;
+      cursor: pointer;
+      z-index: 1001;
+      color: #333;
+    `
+    editBtn.onclick = () => this.startEditing()
+
+    const compareBtn = document.createElement('button')
+    compareBtn.innerHTML = '⧉'
+    compareBtn.title = 'Compare with photo (C)'
+    compareBtn.style.cssText = `
+      position: absolute;
+      top: 20px;
+      right: 188px;
+      width: 44px;
+      height: 44px;
+      border: none;
+      background: rgba(0,0,0,0.1);
+      border-radius: 50%;
+      font-size: 18px;
+      cursor: pointer;
+      z-index: 1001;
+      color: #333;
+    `
+    compareBtn.onclick = () => this.toggleCompare()
+
+    this.infoPanel = document.createElement('div')
+    this.infoPanel.id = 'splat-info'
+    this.infoPanel.style.cssText = `
+      position: absolute;
+      top: 20px;
+      left: 20px;
+      min-width: 200px;
+      padding: 12px 16px;
+      background: rgba(0,0,0,0.1);
+      border-radius: 12px;
+      font-size: 12px;
+      line-height: 1.6;
+      color: #333;
+      z-index: 1001;
+      display: none;
+      pointer-events: none;
     `
 
     this.container.appendChild(closeBtn)
+    this.container.appendChild(infoBtn)
+    this.container.appendChild(editBtn)
+    this.container.appendChild(compareBtn)
     this.container.appendChild(prevBtn)
     this.container.appendChild(nextBtn)
     this.container.appendChild(counter)
+
+    // Display toggle and performance readout, to compare the two
+    const readout = document.createElement('div')
+    readout.style.cssText = `
+      position: absolute;
+      bottom: 20px;
+      left: 20px;
+      display: flex;
+      align-items: center;
+      gap: 10px;
+      font-size: 12px;
+      color: #333;
+      z-index: 1001;
+    `
+    this.displayBtn = document.createElement('button')
+    this.displayBtn.title = 'Switch between Gaussians and points (P)'
+    this.displayBtn.style.cssText = `
+      padding: 8px 14px;
+      border: none;
+      background: rgba(0,0,0,0.1);
+      border-radius: 20px;
+      font-size: 13px;
+      cursor: pointer;
+      color: #333;
+    `
+    this.displayBtn.onclick = () => this.toggleDisplay()
+    this.statsLabel = document.createElement('span')
+    this.statsLabel.style.cssText = 'opacity: 0.7; font-variant-numeric: tabular-nums;'
+    readout.append(this.displayBtn, this.statsLabel)
+    this.updateDisplayButton()
+    this.container.appendChild(readout)
+    this.container.appendChild(this.infoPanel)
     document.body.appendChild(this.container)
 
+    this.editor = new SplatEditor({
+      container: this.container,
+      onPreview: (data) => this.previewCleanup(data),
+      onSave: (data, cleanup) => this.saveCleanup(data, cleanup),
+      onRestore: () => this.restoreOriginal(),
+      onExit: (changed) => {
+        // Show the splat as saved again
+        if (changed && this.isOpen) this.loadCurrentSplat()
+      },
+    })
+
+    this.compare = new SplatCompare(this.container)
+    this.compare.onLayout = () => this.updateCompareFov()
+
+    this.bindGestures()
+
     // Keyboard navigation
     document.addEventListener('keydown', (e) => {
-      if (!this.isOpen) return
-      if (e.key === 'Escape') this.close()
+      if (!this.isOpen && !this.isEmbedded) return
+      // Sliders in the edit panel use the arrow keys
+      if (this.editor?.isActive) {
+        if (e.key === 'Escape') this.editor.close()
+        return
+      }
+      if (e.key === 'Escape' && this.isOpen) this.close()
       if (e.key === 'ArrowLeft') this.prev()
       if (e.key === 'ArrowRight') this.next()
+      if (e.key === 'i' && this.isOpen) this.toggleInfo()
+      if (e.key === 'p' && this.isOpen) this.toggleDisplay()
+      if (e.key === 'c' && this.isOpen) this.toggleCompare()
+      if (e.key === 'b' && this.compare?.isActive) this.compare.cycleBlend()
     })
   }
 
   /**
    * Add a splat to the collection
    */
-  addSplat(photoId: string, plyUrl: string) {
+  addSplat(photoId: string, plyUrl: string, original?: SplatOriginal) {
     this.splats.push({
       id: `splat-${this.splats.length}`,
       photoId,
-      plyUrl
+      plyUrl,
+      original
     })
     console.log(`[SplatViewer] Added splat for ${photoId}, total: ${this.splats.length}`)
   }
 
+  /**
+   * Drop the splats of photos not in photoIds, e.g. after switching
+   * albums. Closes the viewer if its splat goes.
+   */
+  retainSplats(photoIds: Set<string>) {
+    const current = this.splats[this.currentIndex]?.photoId
+    const removed = this.splats.filter(s => !photoIds.has(s.photoId))
+    if (removed.length === 0) return
+
+    for (const splat of removed) {
+      this.prefetched.delete(splat.plyUrl)
+      this.stats.delete(splat.plyUrl)
+    }
+    this.splats = this.splats.filter(s => photoIds.has(s.photoId))
+
+    const index = this.splats.findIndex(s => s.photoId === current)
+    this.currentIndex = Math.max(0, index)
+    if (this.isOpen && index < 0) this.close()
+    console.log(`[SplatViewer] Removed ${removed.length} splats, total: ${this.splats.length}`)
+  }
+
+  /**
+   * Point a photo's splat at a new file, e.g. after cleaning it up
+   */
+  updateSplat(photoId: string, plyUrl: string, original?: SplatOriginal) {
+    const splat = this.splats.find(s => s.photoId === photoId)
+    if (!splat) return
+
+    this.prefetched.delete(splat.plyUrl)
+    this.stats.delete(splat.plyUrl)
+    splat.plyUrl = plyUrl
+    splat.original = original
+  }
+
   /**
    * Open viewer at specific index or by photo ID
    */
@@ -158,100 +432,841 @@ export default class SplatViewer {
     }
 
     this.isOpen = true
-    this.container!.style.display = 'block'
+    this.fadeIn()
+    this.updateCounter()
+    this.startStats()
 
     await this.loadCurrentSplat()
-    this.updateCounter()
   }
 
   /**
-   * Close viewer
+   * Close viewer, fading out while the gallery flies back
    */
   close() {
+    if (!this.isOpen) return
     this.isOpen = false
-    this.container!.style.display = 'none'
-
-    // Dispose viewer
-    if (this.viewer) {
-      try {
-        this.viewer.dispose()
-      } catch (e) {}
-      this.viewer = null
-    }
+    this.editor?.close()
+    this.compare?.close()
 
     if (this.onClose) this.onClose()
+
+    gsap.killTweensOf(this.container)
+    gsap.to(this.container, {
+      opacity: 0,
+      duration: FADE_DURATION,
+      ease: 'power2.in',
+      onComplete: () => {
+        this.container!.style.display = 'none'
+        this.stopStats()
+
+        // Dispose viewer, and drop any load still in flight
+        this.loadToken++
+        this.dropIncoming()
+        disposeViewer(this.viewer)
+        this.layer?.remove()
+        this.viewer = null
+        this.layer = null
+      },
+    })
+  }
+
+  fadeIn() {
+    gsap.killTweensOf(this.container)
+    this.container!.style.display = 'block'
+    gsap.fromTo(
+      this.container,
+      { opacity: 0 },
+      { opacity: 1, duration: FADE_DURATION, ease: 'power2.out' }
+    )
+  }
+
+  /**
+   * Photo ID of the splat on screen
+   */
+  get currentPhotoId(): string | undefined {
+    return this.splats[this.currentIndex]?.photoId
   }
 
   /**
    * Navigate to previous splat
    */
   async prev() {
-    if (this.splats.length <= 1) return
+    if (this.splats.length <= 1 || this.editor?.isActive) return
     this.currentIndex = (this.currentIndex - 1 + this.splats.length) % this.splats.length
-    await this.loadCurrentSplat()
-    this.updateCounter()
+    this.updateCounter(-1)
+    await (this.isOpen ? this.loadCurrentSplat(-1) : this.loadEmbeddedSplat())
   }
 
   /**
    * Navigate to next splat
    */
   async next() {
-    if (this.splats.length <= 1) return
+    if (this.splats.length <= 1 || this.editor?.isActive) return
     this.currentIndex = (this.currentIndex + 1) % this.splats.length
-    await this.loadCurrentSplat()
-    this.updateCounter()
+    this.updateCounter(1)
+    await (this.isOpen ? this.loadCurrentSplat(1) : this.loadEmbeddedSplat())
   }
 
   /**
-   * Load the current splat
+   * Load the current splat into a fresh viewer and crossfade to it once
+   * it is ready, sliding in from the side given by direction. The camera
+   * is framed from the file's own stats before the scene is added, or
+   * placed where the photo was taken in compare mode.
    */
-  async loadCurrentSplat() {
+  async loadCurrentSplat(direction = 0) {
     const splat = this.splats[this.currentIndex]
     if (!splat) return
 
-    // Dispose previous viewer
-    if (this.viewer) {
+    const token = ++this.loadToken
+    this.dropIncoming()
+    console.log(`[SplatViewer] Loading: ${splat.plyUrl}`)
+    this.prefetchNeighbours()
+
+    let loaded: LoadedSplat
+    try {
+      loaded = await this.getSplatData(splat)
+    } catch (err) {
+      console.error(`[SplatViewer] Failed to load:`, err)
+      return
+    }
+    // A newer navigation or a close won the race
+    if (token !== this.loadToken) return
+
+    const stats = this.getSplatStats(splat, loaded)
+    const view = this.compare?.isActive
+      ? await this.getSourceView(splat, stats)
+      : this.getInitialView(stats)
+    if (token !== this.loadToken) return
+    this.updateInfo(stats, loaded)
+
+    // The first splat shows its loading UI, later ones wait out of sight
+    const isFirst = !this.viewer
+    const layer = this.createLayer(isFirst)
+
+    const viewerOptions = {
+      rootElement: layer,
+      cameraUp: view.up.toArray(),
+      initialCameraPosition: view.position.toArray(),
+      initialCameraLookAt: view.lookAt.toArray(),
+    }
+    const viewer =
+      this.display === 'points'
+        ? new PointCloudViewer(viewerOptions)
+        : new GaussianSplats3D.Viewer({
+            ...viewerOptions,
+            selfDrivenMode: true,
+            useBuiltInControls: true,
+            dynamicScene: false,
+            sceneRevealMode: GaussianSplats3D.SceneRevealMode.Instant,
+            antialiased: true,
+            focalAdjustment: 1.0,
+          })
+    // The viewer creates its camera up front, with a fixed lens
+    viewer.camera.fov = view.fov
+    viewer.camera.near = view.near
+    viewer.camera.far = view.far
+    viewer.camera.updateProjectionMatrix()
+    // The photo's pose is the whole point of comparing
+    if (viewer.controls) viewer.controls.enabled = !view.photo
+
+    if (isFirst) {
+      this.viewer = viewer
+      this.layer = layer
+    } else {
+      this.incoming = { viewer, layer }
+    }
+
+    try {
+      if (viewer instanceof PointCloudViewer) {
+        viewer.load(await this.getPointData(splat, loaded))
+      } else {
+        await this.addScene(viewer, loaded, {
+          splatAlphaRemovalThreshold: 5,
+          showLoadingUI: isFirst,
+          position: [0, 0, 0],
+          rotation: [0, 0, 0, 1],
+          scale: [1, 1, 1],
+        })
+      }
+      console.log(`[SplatViewer] Loaded: ${splat.photoId}`)
+    } catch (err) {
+      // A superseded viewer fails its load when it is disposed
+      if (token === this.loadToken) console.error(`[SplatViewer] Failed to load:`, err)
+    }
+
+    // The load or close that took over has disposed this viewer already
+    if (token !== this.loadToken) return
+
+    this.incoming = null
+    if (!isFirst) this.crossfadeTo(viewer, layer, direction)
+    if (this.compare?.isActive) this.compare.show(view.photo ?? null)
+  }
+
+  /**
+   * Dispose the viewer a superseded load was building without waiting for
+   * its scene, so quick navigation doesn't pile up WebGL contexts
+   */
+  dropIncoming() {
+    if (!this.incoming) return
+    disposeViewer(this.incoming.viewer)
+    this.incoming.layer.remove()
+    this.incoming = null
+  }
+
+  /**
+   * Stats for a splat, parsed once per file. Compact copies bring the
+   * stats of their PLY. Null when the file can't be parsed.
+   */
+  getSplatStats(splat: SplatInfo, loaded: LoadedSplat): SplatStats | null {
+    if (loaded.stats) return loaded.stats
+
+    if (!this.stats.has(splat.plyUrl)) {
       try {
-        this.viewer.dispose()
-      } catch (e) {}
-      this.viewer = null
+        this.stats.set(splat.plyUrl, analyzeSplat(loaded.data))
+      } catch (err) {
+        console.warn(`[SplatViewer] Could not read stats for ${splat.photoId}:`, err)
+        this.stats.set(splat.plyUrl, null)
+      }
     }
+    return this.stats.get(splat.plyUrl) ?? null
+  }
 
-    console.log(`[SplatViewer] Loading: ${splat.plyUrl}`)
+  /**
+   * Camera placement that fits the splat's core in view, ignoring the
+   * floaters outside it. Without stats the default framing is used.
+   */
+  getInitialView(stats: SplatStats | null): SplatView {
+    const toRadians = Math.PI / 180
+    const aspect = window.innerWidth / Math.max(1, window.innerHeight)
+
+    if (!stats || stats.coreBounds.isEmpty()) {
+      return {
+        position: new THREE.Vector3(0, 0, this.framing.distance),
+        lookAt: new THREE.Vector3(),
+        up: new THREE.Vector3(0, 1, 0),
+        fov: this.framing.fov,
+        near: 0.1,
+        far: 1000,
+      }
+    }
+
+    const center = stats.coreBounds.getCenter(new THREE.Vector3())
+    const size = stats.coreBounds.getSize(new THREE.Vector3())
+    const halfHeight = Math.tan((this.framing.fov * toRadians) / 2)
+    const halfWidth = halfHeight * aspect
+
+    // Fit the front face, then step back past the front half of the depth
+    const distance =
+      Math.max(size.x / 2 / halfWidth, size.y / 2 / halfHeight, MIN_FRAMING_DISTANCE) *
+        FRAMING_MARGIN +
+      size.z / 2
+    const position = center.clone().add(new THREE.Vector3(0, 0, distance))
+
+    // Far enough for every Gaussian, near as far out as the core allows
+    const reach = stats.bounds.distanceToPoint(position) +
+      stats.bounds.getSize(new THREE.Vector3()).length()
+    const near = Math.max(0.01, (distance - size.z / 2) * 0.25)
+
+    return {
+      position,
+      lookAt: center,
+      up: new THREE.Vector3(0, 1, 0),
+      fov: this.framing.fov,
+      near,
+      far: Math.max(reach, near * 10),
+    }
+  }
+
+  /**
+   * Camera at the pose the source photo was taken from. Sharp keeps that
+   * camera at the origin looking down +z, with y pointing down the photo.
+   * Its lens isn't stored, so it is measured from how far the Gaussians
+   * spread, then widened so the photo's box on screen matches the photo.
+   */
+  async getSourceView(splat: SplatInfo, stats: SplatStats | null): Promise<SplatView> {
+    const url = getPhotoById(splat.photoId)?.url
+    let aspect: number | null = null
+    if (url) {
+      try {
+        aspect = await this.compare!.loadPhoto(url)
+      } catch (err) {
+        console.warn(`[SplatViewer] Could not load photo ${splat.photoId}:`, err)
+      }
+    } else {
+      console.warn(`[SplatViewer] No photo for ${splat.photoId} to compare with`)
+    }
+    const photo = url && aspect ? { url, aspect } : undefined
+    // Without the photo, frame as if it filled the screen
+    aspect ??= window.innerWidth / Math.max(1, window.innerHeight)
+
+    const frustum = stats?.frustum
+    this.sourceTanHalfHeight = frustum
+      ? Math.max(frustum.tanY, frustum.tanX / aspect)
+      : Math.tan((this.framing.fov * Math.PI) / 360)
+
+    const position = new THREE.Vector3()
+    const far = stats
+      ? stats.bounds.distanceToPoint(position) + stats.bounds.getSize(new THREE.Vector3()).length()
+      : 1000
 
-    // Create new viewer
-    this.viewer = new GaussianSplats3D.Viewer({
-      selfDrivenMode: true,
-      useBuiltInControls: true,
-      rootElement: this.container,
-      cameraUp: [0, 1, 0],
-      initialCameraPosition: [0, 0, 4],
-      initialCameraLookAt: [0, 0, 0],
+    return {
+      position,
+      // One unit ahead, so the orbit target isn't the camera itself
+      lookAt: new THREE.Vector3(0, 0, 1),
+      up: new THREE.Vector3(0, -1, 0),
+      fov: this.compare!.getCameraFov(this.sourceTanHalfHeight, aspect),
+      near: 0.01,
+      far: Math.max(far, 1),
+      photo,
+    }
+  }
+
+  /**
+   * Put the current splat next to the photo it was made from, or go back
+   * to the free camera
+   */
+  toggleCompare() {
+    if (!this.isOpen || !this.compare || this.editor?.isActive) return
+    if (this.compare.isActive) {
+      this.compare.close()
+    } else {
+      const splat = this.splats[this.currentIndex]
+      if (!splat || !getPhotoById(splat.photoId)) {
+        console.warn('[SplatViewer] No photo to compare with')
+        return
+      }
+      // Marks compare mode, the photo is shown once the splat is ready
+      this.compare.isActive = true
+    }
+    console.log(`[SplatViewer] Compare: ${this.compare.isActive ? 'on' : 'off'}`)
+    this.loadCurrentSplat()
+  }
+
+  /**
+   * Keep the photo's view filling the photo's box as the window resizes
+   */
+  updateCompareFov() {
+    const camera = this.viewer?.camera
+    if (!camera || !this.compare) return
+    camera.fov = this.compare.getCameraFov(this.sourceTanHalfHeight)
+    camera.updateProjectionMatrix()
+  }
+
+  /**
+   * Points are read from the PLY itself, a compact copy has to make way
+   * for the original file
+   */
+  async getPointData(splat: SplatInfo, loaded: LoadedSplat) {
+    if (loaded.format === GaussianSplats3D.SceneFormat.Ply) return loaded.data
+    return fetchSplatData(splat.plyUrl)
+  }
+
+  /**
+   * Switch between Gaussians and points, reloading the splat on screen
+   */
+  toggleDisplay() {
+    if (this.editor?.isActive) return
+    this.display = this.display === 'gaussians' ? 'points' : 'gaussians'
+    this.updateDisplayButton()
+    console.log(`[SplatViewer] Display: ${this.display}`)
+    if (this.isOpen) this.loadCurrentSplat()
+  }
+
+  updateDisplayButton() {
+    if (!this.displayBtn) return
+    this.displayBtn.textContent = this.display === 'gaussians' ? 'Gaussians' : 'Points'
+  }
+
+  /**
+   * Count frames while the modal is open, both viewers draw once per
+   * animation frame so this is the rate they reach
+   */
+  startStats() {
+    this.stopStats()
+    let frames = 0
+    let since = performance.now()
+
+    const tick = (now: number) => {
+      this.statsFrame = requestAnimationFrame(tick)
+      frames++
+      if (now - since < STATS_INTERVAL) return
+
+      const fps = Math.round((frames * 1000) / (now - since))
+      frames = 0
+      since = now
+      this.updateStats(fps)
+    }
+    this.statsFrame = requestAnimationFrame(tick)
+  }
+
+  stopStats() {
+    cancelAnimationFrame(this.statsFrame)
+  }
+
+  updateStats(fps: number) {
+    if (!this.statsLabel) return
+
+    const parts = [`${fps} fps`, `GPU ${formatBytes(getGpuBytes(this.viewer))}`]
+    // Chrome only
+    const heap = (performance as any).memory?.usedJSHeapSize
+    if (heap) parts.push(`heap ${formatBytes(heap)}`)
+    this.statsLabel.textContent = parts.join(' · ')
+  }
+
+  /**
+   * Edit the splat on screen
+   */
+  startEditing() {
+    const splat = this.splats[this.currentIndex]
+    // Cleanup previews swap Gaussian scenes, and need the camera free
+    if (!this.isOpen || !this.viewer || !splat || this.display !== 'gaussians') return
+    if (this.compare?.isActive) return
+    this.editor?.open(this.viewer, splat)
+  }
+
+  /**
+   * Swap the current viewer's scene for a cleaned PLY, keeping the camera
+   * where the user left it
+   */
+  async previewCleanup(data: ArrayBuffer) {
+    const viewer = this.viewer
+    if (!viewer) return
+
+    await viewer.removeSplatScenes([0], false)
+    await this.addScene(
+      viewer,
+      { data, format: GaussianSplats3D.SceneFormat.Ply, stats: null },
+      {
+        splatAlphaRemovalThreshold: 5,
+        showLoadingUI: false,
+        position: [0, 0, 0],
+        rotation: [0, 0, 0, 1],
+        scale: [1, 1, 1],
+      }
+    )
+  }
+
+  async saveCleanup(data: ArrayBuffer, cleanup: SplatCleanup) {
+    const splat = this.splats[this.currentIndex]
+    if (!splat || !this.onSaveCleanup) return
+
+    const original = splat.original?.plyUrl ?? splat.plyUrl
+    const plyUrl = await this.onSaveCleanup(splat.photoId, data, cleanup)
+    this.updateSplat(splat.photoId, plyUrl, { plyUrl: original, cleanup })
+    console.log(`[SplatViewer] Saved cleaned splat for ${splat.photoId}`)
+  }
+
+  async restoreOriginal() {
+    const splat = this.splats[this.currentIndex]
+    if (!splat?.original || !this.onRestoreOriginal) return
+
+    const plyUrl = await this.onRestoreOriginal(splat.photoId)
+    this.updateSplat(splat.photoId, plyUrl)
+    console.log(`[SplatViewer] Restored original splat for ${splat.photoId}`)
+  }
+
+  createLayer(visible: boolean) {
+    const layer = document.createElement('div')
+    layer.style.cssText = `
+      position: absolute;
+      inset: 0;
+      opacity: ${visible ? 1 : 0};
+    `
+    // Below the buttons and the counter
+    this.container!.insertBefore(layer, this.container!.firstChild)
+    return layer
+  }
+
+  /**
+   * Fade the incoming viewer in over the outgoing one, then dispose the
+   * outgoing one
+   */
+  crossfadeTo(viewer: any, layer: HTMLElement, direction: number) {
+    const previousViewer = this.viewer
+    const previousLayer = this.layer
+    this.viewer = viewer
+    this.layer = layer
+
+    gsap.fromTo(
+      layer,
+      { opacity: 0, x: direction * CROSSFADE_OFFSET },
+      { opacity: 1, x: 0, duration: CROSSFADE_DURATION, ease: 'power2.out' }
+    )
+
+    if (!previousLayer) return
+    gsap.killTweensOf(previousLayer)
+    gsap.to(previousLayer, {
+      opacity: 0,
+      x: -direction * CROSSFADE_OFFSET,
+      duration: CROSSFADE_DURATION,
+      ease: 'power2.in',
+      onComplete: () => {
+        disposeViewer(previousViewer)
+        previousLayer.remove()
+      },
+    })
+  }
+
+  /**
+   * Horizontal swipes navigate without fighting the orbit controls. Swipes
+   * from the screen edge belong to navigation alone, anywhere else only a
+   * fast flick counts. Two-finger trackpad swipes arrive as horizontal
+   * wheel events.
+   */
+  bindGestures() {
+    const container = this.container!
+    let swipe: {
+      pointerId: number
+      startX: number
+      startY: number
+      startTime: number
+      fromEdge: boolean
+    } | null = null
+
+    const endSwipe = (e: PointerEvent, cancelled: boolean) => {
+      if (!swipe || e.pointerId !== swipe.pointerId) return
+      const { startX, startY, startTime, fromEdge } = swipe
+      swipe = null
+
+      const dx = e.clientX - startX
+      const dy = e.clientY - startY
+      const velocity = Math.abs(dx) / Math.max(1, performance.now() - startTime)
+      const isHorizontal = Math.abs(dx) > Math.abs(dy) * 1.5
+      const isSwipe =
+        !cancelled &&
+        isHorizontal &&
+        (fromEdge
+          ? Math.abs(dx) > EDGE_SWIPE_DISTANCE
+          : Math.abs(dx) > FLICK_DISTANCE && velocity > FLICK_VELOCITY)
+
+      if (fromEdge) {
+        e.stopPropagation()
+        if (!isSwipe && this.layer) {
+          gsap.to(this.layer, { x: 0, duration: 0.25, ease: 'power2.out' })
+        }
+      }
+
+      if (isSwipe) {
+        if (dx < 0) this.next()
+        else this.prev()
+      }
+    }
+
+    // Capture phase, so edge swipes are claimed before the viewer's canvas
+    container.addEventListener(
+      'pointerdown',
+      (e) => {
+        if (!this.isOpen || (e.target as HTMLElement).closest('button, [data-no-swipe]')) return
+
+        const fromEdge =
+          e.clientX < EDGE_SWIPE_WIDTH ||
+          e.clientX > window.innerWidth - EDGE_SWIPE_WIDTH
+        swipe = {
+          pointerId: e.pointerId,
+          startX: e.clientX,
+          startY: e.clientY,
+          startTime: performance.now(),
+          fromEdge,
+        }
+
+        if (fromEdge) {
+          e.stopPropagation()
+          container.setPointerCapture(e.pointerId)
+        }
+      },
+      true
+    )
+
+    container.addEventListener(
+      'pointermove',
+      (e) => {
+        if (!swipe?.fromEdge || e.pointerId !== swipe.pointerId) return
+        e.stopPropagation()
+
+        // The splat follows the finger a little
+        if (this.layer) {
+          gsap.set(this.layer, { x: (e.clientX - swipe.startX) * 0.4 })
+        }
+      },
+      true
+    )
+
+    container.addEventListener('pointerup', (e) => endSwipe(e, false), true)
+    container.addEventListener('pointercancel', (e) => endSwipe(e, true), true)
+
+    let wheelDelta = 0
+    let wheelLocked = false
+    let wheelTimer: ReturnType<typeof setTimeout> | undefined
+
+    container.addEventListener(
+      'wheel',
+      (e) => {
+        if (!this.isOpen || Math.abs(e.deltaX) <= Math.abs(e.deltaY)) return
+        // Keep the browser from navigating back and the zoom from reacting
+        e.preventDefault()
+        e.stopPropagation()
+
+        // One gesture, one step, however long the momentum scroll lasts
+        clearTimeout(wheelTimer)
+        wheelTimer = setTimeout(() => {
+          wheelDelta = 0
+          wheelLocked = false
+        }, WHEEL_IDLE_TIME)
+        if (wheelLocked) return
+
+        wheelDelta += e.deltaX
+        if (Math.abs(wheelDelta) > WHEEL_SWIPE_DISTANCE) {
+          wheelLocked = true
+          if (wheelDelta > 0) this.next()
+          else this.prev()
+        }
+      },
+      { capture: true, passive: false }
+    )
+  }
+
+  /**
+   * Add already downloaded splat data to a viewer
+   */
+  async addScene(
+    viewer: any,
+    { data, format }: LoadedSplat,
+    options: GaussianSplats3D.SplatSceneOptions
+  ) {
+    const url = createSplatUrl(data)
+    try {
+      await viewer.addSplatScene(url, { ...options, format })
+    } finally {
+      URL.revokeObjectURL(url)
+    }
+  }
+
+  getSplatData(splat: SplatInfo) {
+    let data = this.prefetched.get(splat.plyUrl)
+    if (!data) {
+      data = loadSplat(splat.plyUrl)
+      // Let a failed download be retried next time
+      data.catch(() => this.prefetched.delete(splat.plyUrl))
+      this.prefetched.set(splat.plyUrl, data)
+    }
+    return data
+  }
+
+  /**
+   * Start downloading the previous and next splats, forgetting any others
+   * so only three files are held in memory
+   */
+  prefetchNeighbours() {
+    const count = this.splats.length
+    if (count === 0) return
+
+    const neighbours = [-1, 0, 1].map(
+      (offset) => this.splats[(this.currentIndex + offset + count) % count]
+    )
+    const keep = new Set(neighbours.map((splat) => splat.plyUrl))
+    for (const url of this.prefetched.keys()) {
+      if (!keep.has(url)) this.prefetched.delete(url)
+    }
+
+    neighbours.forEach((splat) => this.getSplatData(splat).catch(() => {}))
+  }
+
+  /**
+   * Show the current splat inside the gallery scene
+   */
+  async showEmbedded() {
+    if (!this.embedOptions) {
+      console.warn('[SplatViewer] Embedded mode needs a renderer, scene and camera')
+      return
+    }
+    this.isEmbedded = true
+
+    // Later splats reuse the spot even after the camera has orbited
+    const { camera } = this.embedOptions
+    this.embeddedCenter
+      .copy(camera.position)
+      .add(new THREE.Vector3(0, 0, -this.getFramingDistance(camera.fov)))
+
+    await this.loadEmbeddedSplat()
+  }
+
+  hideEmbedded() {
+    this.isEmbedded = false
+    this.disposeEmbedded()
+  }
+
+  /**
+   * Load the current splat into a viewer driven by the gallery's render
+   * loop, framed the way the modal's camera would frame it
+   */
+  async loadEmbeddedSplat() {
+    const splat = this.splats[this.currentIndex]
+    if (!splat || !this.embedOptions) return
+
+    this.disposeEmbedded()
+
+    const { scene, renderer, camera } = this.embedOptions
+    const viewer = new GaussianSplats3D.Viewer({
+      selfDrivenMode: false,
+      useBuiltInControls: false,
+      renderer,
+      camera,
+      threeScene: scene,
+      rootElement: renderer.domElement,
       dynamicScene: false,
       sceneRevealMode: GaussianSplats3D.SceneRevealMode.Instant,
       antialiased: true,
       focalAdjustment: 1.0,
     })
+    this.embeddedViewer = viewer
+    this.prefetchNeighbours()
 
     try {
-      await this.viewer.addSplatScene(splat.plyUrl, {
+      const loaded = await this.getSplatData(splat)
+      // Replaced while the data was on its way
+      if (viewer !== this.embeddedViewer) return
+
+      await this.addScene(viewer, loaded, {
         splatAlphaRemovalThreshold: 5,
-        showLoadingUI: true,
-        position: [0, 0, 0],
+        showLoadingUI: false,
+        position: this.embeddedCenter.toArray(),
         rotation: [0, 0, 0, 1],
         scale: [1, 1, 1],
       })
-      console.log(`[SplatViewer] Loaded: ${splat.photoId}`)
+      console.log(`[SplatViewer] Embedded: ${splat.photoId}`)
     } catch (err) {
-      console.error(`[SplatViewer] Failed to load:`, err)
+      console.error(`[SplatViewer] Failed to embed:`, err)
     }
   }
 
-  updateCounter() {
+  disposeEmbedded() {
+    disposeViewer(this.embeddedViewer)
+    this.embeddedViewer = null
+  }
+
+  /**
+   * Draw the gallery scene with the embedded splat on top. Returns false
+   * until the splat is ready, so the caller can render the scene itself.
+   */
+  renderEmbedded(): boolean {
+    const viewer = this.embeddedViewer
+    if (!this.isEmbedded || !viewer) return false
+
+    viewer.update()
+    if (!viewer.splatRenderReady) return false
+
+    viewer.render()
+    return true
+  }
+
+  /**
+   * Distance at which a camera with this field of view frames a splat
+   * the same way the modal's camera does
+   */
+  getFramingDistance(fov: number) {
+    const toRadians = Math.PI / 180
+    return (
+      (this.framing.distance * Math.tan((this.framing.fov * toRadians) / 2)) /
+      Math.tan((fov * toRadians) / 2)
+    )
+  }
+
+  /**
+   * Show the position in the collection, rolling the new number in from
+   * the side being navigated to
+   */
+  updateCounter(direction = 0) {
     const counter = document.getElementById('splat-counter')
-    if (counter) {
-      counter.textContent = `${this.currentIndex + 1} / ${this.splats.length}`
+    if (!counter) return
+
+    const label = document.createElement('span')
+    label.style.display = 'inline-block'
+    label.textContent = `${this.currentIndex + 1} / ${this.splats.length}`
+    counter.replaceChildren(label)
+
+    if (direction !== 0) {
+      gsap.fromTo(
+        label,
+        { x: direction * 16, opacity: 0 },
+        { x: 0, opacity: 1, duration: 0.3, ease: 'power2.out' }
+      )
+    }
+  }
+
+  toggleInfo() {
+    const panel = this.infoPanel
+    if (!panel) return
+    panel.style.display = panel.style.display === 'none' ? 'block' : 'none'
+  }
+
+  /**
+   * Fill the info overlay with the current splat's stats
+   */
+  updateInfo(stats: SplatStats | null, loaded: LoadedSplat) {
+    const panel = this.infoPanel
+    if (!panel) return
+
+    // What the compact copy saves over the PLY
+    const { data, originalSize } = loaded
+    const fileSize = originalSize
+      ? `${formatBytes(data.byteLength)} (${Math.round(
+          (1 - data.byteLength / originalSize) * 100
+        )}% less than ${formatBytes(originalSize)})`
+      : formatBytes(data.byteLength)
+
+    if (!stats) {
+      panel.textContent = `File ${fileSize}, no stats for this splat`
+      return
+    }
+
+    const size = stats.coreBounds.getSize(new THREE.Vector3())
+    const rows: [string, string][] = [
+      ['File', fileSize],
+      ['Gaussians', stats.count.toLocaleString()],
+      ['Extent', `${size.x.toFixed(2)} × ${size.y.toFixed(2)} × ${size.z.toFixed(2)}`],
+      ['Median scale', stats.medianScale.toPrecision(3)],
+      ['Mean opacity', stats.opacity.mean.toFixed(2)],
+    ]
+
+    const table = document.createElement('div')
+    table.style.cssText = `
+      display: grid;
+      grid-template-columns: auto auto;
+      column-gap: 12px;
+    `
+    for (const [label, value] of rows) {
+      const name = document.createElement('span')
+      name.style.opacity = '0.6'
+      name.textContent = label
+      const text = document.createElement('span')
+      text.style.textAlign = 'right'
+      text.textContent = value
+      table.append(name, text)
+    }
+
+    // Opacity distribution, from transparent on the left to opaque
+    const histogram = document.createElement('div')
+    histogram.title = 'Opacity distribution'
+    histogram.style.cssText = `
+      display: flex;
+      align-items: flex-end;
+      gap: 2px;
+      height: 40px;
+      margin-top: 8px;
+    `
+    const peak = Math.max(...stats.opacity.histogram, 0.0001)
+    for (const share of stats.opacity.histogram) {
+      const bar = document.createElement('div')
+      bar.style.cssText = `
+        flex: 1;
+        height: ${Math.max(1, (share / peak) * 100)}%;
+        background: #333;
+        opacity: 0.5;
+      `
+      histogram.appendChild(bar)
     }
+
+    panel.replaceChildren(table, histogram)
   }
 
   /**
@@ -268,3 +1283,29 @@ export default class SplatViewer {
     return this.splats.some(s => s.photoId === photoId)
   }
 }
+
+/**
+ * Bytes of splat data a viewer holds on the GPU. For the Gaussian viewer
+ * that is its data textures, for points their vertex attributes.
+ */
+const getGpuBytes = (viewer: any): number => {
+  if (!viewer) return 0
+  if (viewer instanceof PointCloudViewer) return viewer.getGpuBytes()
+
+  const textures = viewer.splatMesh?.splatDataTextures ?? {}
+  return Object.values(textures).reduce(
+    (sum: number, entry: any) => sum + (entry?.texture ? entry.data?.byteLength ?? 0 : 0),
+    0
+  )
+}
+
+/**
+ * Dispose a viewer, ignoring failures. Viewers that own their renderer try
+ * to remove their root element from <body>, which fails for our layers.
+ */
+const disposeViewer = (viewer: any) => {
+  if (!viewer) return
+  try {
+    Promise.resolve(viewer.dispose()).catch(() => {})
+  } catch (e) {}
+}
@@ -0,0 +1,314 @@
+/**
+ * Texture Atlas - Pack photos into fixed-size pages for the gallery shader
+ *
+ * Images are downscaled to a target tile size, shelf-packed in 2D and
+ * surrounded by an extruded gutter so filtering never bleeds into a
+ * neighbouring image. Pages are OffscreenCanvases so packing can run in
+ * atlasWorker.ts, and images can be added or removed later without
+ * rebuilding the whole thing. Only the pixels of changed slots are read
+ * back, see AtlasBuilder for the GPU side.
+ */
+
+export interface AtlasOptions {
+  tileSize?: number
+  pageSize?: number
+  gutter?: number
+  maxTextureSize?: number
+}
+
+export interface AtlasUvs {
+  xStart: number
+  xEnd: number
+  yStart: number
+  yEnd: number
+  page: number
+}
+
+export interface AtlasSlot {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface AtlasEntry {
+  width: number
+  height: number
+  aspectRatio: number
+  uvs: AtlasUvs
+  slot: AtlasSlot
+}
+
+// Pixels of one slot, ready to be copied into the array textures
+export interface AtlasRegion {
+  page: number
+  slot: AtlasSlot
+  pixels: Uint8ClampedArray
+  blurred: Uint8ClampedArray
+}
+
+interface Shelf {
+  y: number
+  height: number
+  x: number
+}
+
+interface Page {
+  canvas: OffscreenCanvas
+  ctx: OffscreenCanvasRenderingContext2D
+  shelves: Shelf[]
+  nextShelfY: number
+  slots: AtlasSlot[]
+  freeSlots: AtlasSlot[]
+}
+
+const DEFAULT_TILE_SIZE = 512
+const DEFAULT_PAGE_SIZE = 2048
+const DEFAULT_GUTTER = 4
+
+export default class TextureAtlas {
+  tileSize: number
+  pageSize: number
+  gutter: number
+  blurRadius: number
+  pages: Page[] = []
+  dirtySlots: { page: number; slot: AtlasSlot }[] = []
+
+  constructor({
+    tileSize = DEFAULT_TILE_SIZE,
+    pageSize = DEFAULT_PAGE_SIZE,
+    gutter = DEFAULT_GUTTER,
+    maxTextureSize = Infinity,
+  }: AtlasOptions = {}) {
+    this.pageSize = Math.min(pageSize, maxTextureSize)
+    this.gutter = gutter
+    // Tile size includes the gutters and must always fit on an empty page
+    this.tileSize = Math.min(tileSize, this.pageSize)
+    this.blurRadius = this.tileSize / 25
+  }
+
+  /**
+   * Pack a batch of images, returning entries in input order
+   */
+  build(images: CanvasImageSource[]): AtlasEntry[] {
+    const order = images
+      .map((image, index) => ({ index, size: this.fitToTile(image) }))
+      // Tallest first keeps shelves tight
+      .sort((a, b) => b.size.height - a.size.height)
+
+    const entries: AtlasEntry[] = new Array(images.length)
+    for (const { index } of order) {
+      entries[index] = this.add(images[index])
+    }
+    return entries
+  }
+
+  /**
+   * Downscale an image into a free slot and return where it landed
+   */
+  add(image: CanvasImageSource): AtlasEntry {
+    const { width, height } = this.fitToTile(image)
+    const slotWidth = width + this.gutter * 2
+    const slotHeight = height + this.gutter * 2
+
+    const { pageIndex, slot } = this.allocate(slotWidth, slotHeight)
+    const page = this.pages[pageIndex]
+
+    // Stretch the image over the whole slot first so the gutter repeats
+    // the edge pixels, then draw it at its real size on top
+    page.ctx.clearRect(slot.x, slot.y, slot.width, slot.height)
+    page.ctx.drawImage(image, slot.x, slot.y, slotWidth, slotHeight)
+    page.ctx.drawImage(
+      image,
+      slot.x + this.gutter,
+      slot.y + this.gutter,
+      width,
+      height
+    )
+    this.dirtySlots.push({ page: pageIndex, slot })
+
+    const sourceWidth = getImageWidth(image)
+    const sourceHeight = getImageHeight(image)
+
+    return {
+      width: sourceWidth,
+      height: sourceHeight,
+      aspectRatio: sourceWidth / sourceHeight,
+      uvs: {
+        xStart: (slot.x + this.gutter) / this.pageSize,
+        xEnd: (slot.x + this.gutter + width) / this.pageSize,
+        yStart: (slot.y + this.gutter) / this.pageSize,
+        yEnd: (slot.y + this.gutter + height) / this.pageSize,
+        page: pageIndex,
+      },
+      slot,
+    }
+  }
+
+  /**
+   * Release an entry's slot so a later add() can reuse it
+   */
+  remove(entry: AtlasEntry) {
+    const page = this.pages[entry.uvs.page]
+    if (!page) return
+
+    // Entries may be copies that crossed a worker boundary
+    const index = page.slots.findIndex(
+      (slot) => slot.x === entry.slot.x && slot.y === entry.slot.y
+    )
+    if (index === -1) return
+
+    const [slot] = page.slots.splice(index, 1)
+    page.freeSlots.push(slot)
+  }
+
+  fitToTile(image: CanvasImageSource) {
+    const width = getImageWidth(image)
+    const height = getImageHeight(image)
+    const maxSize = this.tileSize - this.gutter * 2
+    const scale = Math.min(1, maxSize / Math.max(width, height))
+
+    return {
+      width: Math.max(1, Math.round(width * scale)),
+      height: Math.max(1, Math.round(height * scale)),
+    }
+  }
+
+  allocate(width: number, height: number) {
+    for (let pageIndex = 0; pageIndex < this.pages.length; pageIndex++) {
+      const slot = this.allocateOnPage(this.pages[pageIndex], width, height)
+      if (slot) return { pageIndex, slot }
+    }
+
+    const page = this.createPage()
+    this.pages.push(page)
+    const slot = this.allocateOnPage(page, width, height)!
+    return { pageIndex: this.pages.length - 1, slot }
+  }
+
+  allocateOnPage(page: Page, width: number, height: number): AtlasSlot | null {
+    // Reuse the tightest freed slot before growing a shelf
+    let bestFree = -1
+    for (let i = 0; i < page.freeSlots.length; i++) {
+      const free = page.freeSlots[i]
+      if (free.width < width || free.height < height) continue
+      if (
+        bestFree === -1 ||
+        free.width * free.height <
+          page.freeSlots[bestFree].width * page.freeSlots[bestFree].height
+      ) {
+        bestFree = i
+      }
+    }
+
+    if (bestFree !== -1) {
+      const [free] = page.freeSlots.splice(bestFree, 1)
+      const slot = { x: free.x, y: free.y, width, height }
+      page.slots.push(slot)
+      return slot
+    }
+
+    // Best fitting existing shelf
+    let best: Shelf | null = null
+    for (const shelf of page.shelves) {
+      if (shelf.height < height || shelf.x + width > this.pageSize) continue
+      if (!best || shelf.height < best.height) best = shelf
+    }
+
+    if (!best) {
+      if (page.nextShelfY + height > this.pageSize) return null
+      best = { y: page.nextShelfY, height, x: 0 }
+      page.shelves.push(best)
+      page.nextShelfY += height
+    }
+
+    const slot = { x: best.x, y: best.y, width, height }
+    best.x += width
+    page.slots.push(slot)
+    return slot
+  }
+
+  createPage(): Page {
+    const canvas = new OffscreenCanvas(this.pageSize, this.pageSize)
+    const ctx = canvas.getContext("2d", { willReadFrequently: true })!
+
+    return { canvas, ctx, shelves: [], nextShelfY: 0, slots: [], freeSlots: [] }
+  }
+
+  /**
+   * Read back every slot touched since the last call, together with a
+   * blurred copy for the depth of field pass. Each slot is blurred on its
+   * own so blurred images don't bleed into their neighbours.
+   */
+  takeRegions(): AtlasRegion[] {
+    const scratch = new OffscreenCanvas(1, 1)
+    const scratchCtx = scratch.getContext("2d", { willReadFrequently: true })!
+
+    const regions = this.dirtySlots.map(({ page: pageIndex, slot }) => {
+      const page = this.pages[pageIndex]
+      const pixels = page.ctx.getImageData(
+        slot.x,
+        slot.y,
+        slot.width,
+        slot.height
+      )
+
+      scratch.width = slot.width
+      scratch.height = slot.height
+      this.drawBlurredSlot(scratchCtx, page, slot, 0, 0)
+      const blurred = scratchCtx.getImageData(0, 0, slot.width, slot.height)
+
+      return { page: pageIndex, slot, pixels: pixels.data, blurred: blurred.data }
+    })
+
+    this.dirtySlots = []
+    return regions
+  }
+
+  drawBlurredSlot(
+    ctx: OffscreenCanvasRenderingContext2D,
+    page: Page,
+    slot: AtlasSlot,
+    x: number,
+    y: number
+  ) {
+    const radius = this.blurRadius
+
+    ctx.save()
+    ctx.beginPath()
+    ctx.rect(x, y, slot.width, slot.height)
+    ctx.clip()
+    ctx.filter = `blur(${radius}px)`
+    // Overdraw past the slot so the blur doesn't fade to transparent
+    ctx.drawImage(
+      page.canvas,
+      slot.x,
+      slot.y,
+      slot.width,
+      slot.height,
+      x - radius,
+      y - radius,
+      slot.width + radius * 2,
+      slot.height + radius * 2
+    )
+    ctx.restore()
+  }
+
+  /**
+   * Forget every page, e.g. before rebuilding the atlas from scratch
+   */
+  reset() {
+    this.pages = []
+    this.dirtySlots = []
+  }
+}
+
+const getImageWidth = (image: CanvasImageSource) => {
+  return (image as HTMLImageElement).naturalWidth || (image as ImageBitmap).width
+}
+
+const getImageHeight = (image: CanvasImageSource) => {
+  return (
+    (image as HTMLImageElement).naturalHeight || (image as ImageBitmap).height
+  )
+}
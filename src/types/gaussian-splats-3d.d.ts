@@ -17,6 +17,41 @@ declare module '@mkkellogg/gaussian-splats-3d' {
     Instant: number
   }
 
+  export const SceneFormat: {
+    Splat: number
+    KSplat: number
+    Ply: number
+    Spz: number
+  }
+
+  export const LoaderUtils: {
+    sceneFormatFromPath(path: string): number | null
+  }
+
+  export class UncompressedSplatArray {
+    splatCount: number
+  }
+
+  export class SplatBuffer {
+    bufferData: ArrayBuffer
+    getSplatCount(): number
+  }
+
+  export class PlyParser {
+    static parseToUncompressedSplatArray(
+      plyBuffer: ArrayBuffer,
+      outSphericalHarmonicsDegree?: number
+    ): UncompressedSplatArray
+  }
+
+  export class SplatBufferGenerator {
+    static getStandardGenerator(
+      alphaRemovalThreshold?: number,
+      compressionLevel?: number
+    ): SplatBufferGenerator
+    generateFromUncompressedSplatArray(splatArray: UncompressedSplatArray): SplatBuffer
+  }
+
   export const LogLevel: {
     None: number
     Error: number
@@ -29,6 +64,8 @@ declare module '@mkkellogg/gaussian-splats-3d' {
     selfDrivenMode?: boolean
     renderer?: THREE.WebGLRenderer
     camera?: THREE.Camera
+    threeScene?: THREE.Scene
+    rootElement?: HTMLElement | null
     useBuiltInControls?: boolean
     ignoreDevicePixelRatio?: boolean
     gpuAcceleratedSort?: boolean
@@ -49,6 +86,7 @@ declare module '@mkkellogg/gaussian-splats-3d' {
   }
 
   export interface SplatSceneOptions {
+    format?: number
     splatAlphaRemovalThreshold?: number
     showLoadingUI?: boolean
     position?: [number, number, number]
@@ -59,6 +97,9 @@ declare module '@mkkellogg/gaussian-splats-3d' {
 
   export class Viewer {
     constructor(options?: ViewerOptions)
+    camera: import('three').PerspectiveCamera
+    // Only with useBuiltInControls
+    controls?: { enabled: boolean }
     addSplatScene(url: string, options?: SplatSceneOptions): Promise<void>
     update(): void
     render(): void
@@ -13,3 +13,8 @@ export interface Position {
   x: number
   y: number
 }
+
+// Omit applied to each member of a union so each keeps its own fields
+export type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never
@@ -0,0 +1,18 @@
+/**
+ * Seeded pseudo-random numbers (mulberry32), so layouts can be rebuilt
+ * exactly from a stored seed
+ */
+export function createRandom(seed: number) {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export function randomSeed() {
+  return Math.floor(Math.random() * 4294967296)
+}
@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // 'mock' generates splats locally instead of calling the Sharp API
+  readonly VITE_SPLAT_PROVIDER?: string
+}